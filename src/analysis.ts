@@ -0,0 +1,170 @@
+import {
+  ANALYSIS_MODEL_FORMAT_VERSION,
+  groupUrlsByDomain,
+} from "./analysisModel";
+import { toBrandSet } from "./brandResolver";
+import {
+  CompetitorComparisonOptions,
+  compareAllCompetitors,
+} from "./comparison";
+import { summarizeDiagnostics } from "./diagnostics";
+import { logger } from "./logger";
+import { extractSourceDomains, findSourceFiles } from "./sources";
+import {
+  AnalysisModel,
+  AnalysisResult,
+  SitemapProcessingOptions,
+  SitemapSource,
+  SourceDiagnostics,
+  SourceExtractionSummary,
+  UrlDomainPair,
+} from "./types";
+
+export interface AnalyzeOptions
+  extends SitemapProcessingOptions,
+    CompetitorComparisonOptions {
+  merchantWeightsFile?: string; // Recorded in the results next to the weights
+}
+
+export interface AnalyzeInput {
+  baseline: SitemapSource;
+  competitors: SitemapSource[];
+  options?: AnalyzeOptions;
+}
+
+/**
+ * Extracts the domains of the baseline and every competitor and compares
+ * them. Writes nothing: the result carries the domain sets, the diagnostics
+ * and the analysis model the CSV and chart renderers draw from.
+ */
+export async function analyze({
+  baseline,
+  competitors,
+  options = {},
+}: AnalyzeInput): Promise<AnalysisResult> {
+  const {
+    sortBy = "overlapPercentage",
+    resolveBrand,
+    merchantWeights,
+    merchantWeightsFile,
+    categoryMap,
+    ...extractionOptions
+  } = options;
+
+  // Every ignored URL, every extracted URL and the newest lastmod of each
+  // domain per source
+  const diagnostics = new Map<string, SourceDiagnostics>();
+  const urlDomainsMap = new Map<string, UrlDomainPair[]>();
+  const lastmodsMap = new Map<string, Map<string, string | null>>();
+
+  logger.info(`Processing ${baseline.name} sitemaps...`, {
+    stage: "extract",
+    source: baseline.name,
+  });
+  const baselineDomains = (
+    await extractSourceDomains(
+      [baseline],
+      extractionOptions,
+      diagnostics,
+      urlDomainsMap,
+      lastmodsMap
+    )
+  ).get(baseline.name)!;
+  logger.info(
+    `Found ${baselineDomains.size} unique domains in ${baseline.name}`,
+    {
+      stage: "extract",
+      source: baseline.name,
+      counts: { domains: baselineDomains.size },
+    }
+  );
+
+  logger.info("\nProcessing competitor sitemaps...", { stage: "extract" });
+  const competitorDomains = await extractSourceDomains(
+    competitors,
+    extractionOptions,
+    diagnostics,
+    urlDomainsMap,
+    lastmodsMap
+  );
+
+  logger.info("\nCalculating domain overlap with competitors...", {
+    stage: "compare",
+  });
+  const competitorResults = compareAllCompetitors(
+    baselineDomains,
+    competitorDomains,
+    { sortBy, resolveBrand, merchantWeights, categoryMap }
+  );
+
+  // How many URLs of each source yielded a domain
+  const extractionSummary: SourceExtractionSummary[] = [];
+  for (const [sourceName, sourceDiagnostics] of diagnostics.entries()) {
+    const domains =
+      sourceName === baseline.name
+        ? baselineDomains
+        : competitorDomains.get(sourceName);
+    extractionSummary.push(
+      summarizeDiagnostics(sourceDiagnostics, domains ? domains.size : 0)
+    );
+  }
+
+  const model: AnalysisModel = {
+    formatVersion: ANALYSIS_MODEL_FORMAT_VERSION,
+    metadata: {
+      createdAt: new Date().toISOString(),
+      baselineName: baseline.name,
+      registrableDomain: extractionOptions.registrableDomain === true,
+      brandMatching: resolveBrand !== undefined,
+      sortBy,
+      sources: [],
+    },
+    baselineUrls: groupUrlsByDomain(urlDomainsMap.get(baseline.name) || []),
+    competitorUrls: {},
+    results: {
+      baselineDomainsCount: baselineDomains.size,
+      baselineBrandsCount: resolveBrand
+        ? toBrandSet(baselineDomains, resolveBrand).size
+        : undefined,
+      ...(merchantWeights && {
+        merchantWeights: {
+          file: merchantWeightsFile,
+          weightedDomains: merchantWeights.weights.size,
+          defaultWeight: merchantWeights.defaultWeight,
+        },
+      }),
+      competitors: competitorResults,
+      extractionSummary,
+    },
+  };
+  for (const source of [baseline, ...competitors]) {
+    model.metadata.sources.push({
+      name: source.name,
+      files: await findSourceFiles(source),
+    });
+  }
+  for (const competitor of competitors) {
+    model.competitorUrls[competitor.name] =
+      urlDomainsMap.get(competitor.name) || [];
+  }
+
+  return {
+    baselineName: baseline.name,
+    baselineDomains,
+    competitorDomains,
+    competitorResults,
+    diagnostics,
+    lastmods: new Map(
+      [...lastmodsMap.entries()].map(([sourceName, lastmods]) => [
+        sourceName,
+        new Map(
+          [...lastmods.entries()].map(([domain, lastmod]) => [
+            domain,
+            lastmod ? new Date(lastmod) : null,
+          ])
+        ),
+      ])
+    ),
+    model,
+  };
+}
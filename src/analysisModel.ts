@@ -0,0 +1,105 @@
+import fs from "fs-extra";
+import path from "path";
+import zlib from "zlib";
+import { AnalysisModel, BaselineNaming, UrlDomainPair } from "./types";
+
+// Bump whenever the layout of the model changes
+export const ANALYSIS_MODEL_FORMAT_VERSION = 1;
+
+const ANALYSIS_MODEL_FILE = "analysis-model.json.gz";
+
+/**
+ * Path of the analysis model in an output directory
+ */
+export function analysisModelPath(outputDir: string): string {
+  return path.join(outputDir, ANALYSIS_MODEL_FILE);
+}
+
+/**
+ * Groups extracted URLs by their domain, keeping the sitemap order
+ */
+export function groupUrlsByDomain(
+  urlDomains: UrlDomainPair[]
+): Record<string, string[]> {
+  const urlsByDomain: Record<string, string[]> = {};
+  for (const [url, domain] of urlDomains) {
+    if (!urlsByDomain[domain]) {
+      urlsByDomain[domain] = [];
+    }
+    urlsByDomain[domain].push(url);
+  }
+  return urlsByDomain;
+}
+
+/**
+ * Saves the model as gzipped JSON to <outputDir>/analysis-model.json.gz,
+ * returning its path
+ */
+export async function writeAnalysisModel(
+  model: AnalysisModel,
+  outputDir: string
+): Promise<string> {
+  const modelPath = analysisModelPath(outputDir);
+  await fs.ensureDir(outputDir);
+  await fs.writeFile(
+    modelPath,
+    zlib.gzipSync(Buffer.from(JSON.stringify(model)))
+  );
+  return modelPath;
+}
+
+/**
+ * Reads the model saved by the last analysis, failing when there is none or
+ * it was written by an incompatible version
+ */
+export async function readAnalysisModel(
+  outputDir: string
+): Promise<AnalysisModel> {
+  const modelPath = analysisModelPath(outputDir);
+  if (!(await fs.pathExists(modelPath))) {
+    throw new Error(
+      `Analysis model not found at ${modelPath}, run the analysis first ("merchant-compare analyze")`
+    );
+  }
+
+  const model: AnalysisModel = JSON.parse(
+    zlib.gunzipSync(await fs.readFile(modelPath)).toString("utf8")
+  );
+  if (model.formatVersion !== ANALYSIS_MODEL_FORMAT_VERSION) {
+    throw new Error(
+      `${modelPath} has an outdated format, run the analysis again ("merchant-compare analyze")`
+    );
+  }
+  return model;
+}
+
+/**
+ * Writes the overlap results of the model to
+ * <outputDir>/domain-overlap-results.json under the baseline's field names,
+ * returning its path
+ */
+export async function writeOverlapResults(
+  model: AnalysisModel,
+  naming: BaselineNaming,
+  outputDir: string
+): Promise<string> {
+  const { results } = model;
+  const resultsPath = path.join(outputDir, "domain-overlap-results.json");
+  await fs.writeJSON(
+    resultsPath,
+    {
+      baselineName: model.metadata.baselineName,
+      [naming.domainsCountField]: results.baselineDomainsCount,
+      ...(results.baselineBrandsCount !== undefined && {
+        [naming.brandsCountField]: results.baselineBrandsCount,
+      }),
+      ...(results.merchantWeights && {
+        merchantWeights: results.merchantWeights,
+      }),
+      competitors: results.competitors,
+      extractionSummary: results.extractionSummary,
+    },
+    { spaces: 2 }
+  );
+  return resultsPath;
+}
@@ -0,0 +1,356 @@
+import { analyze } from "./analysis";
+import { parseSortMetricArg } from "./comparison";
+import { createBrandResolver } from "./brandResolver";
+import { loadMerchantWeights, parseWeightArgs } from "./merchantWeights";
+import { loadCategoryMap, parseCategoriesArg } from "./categories";
+import { formatCacheStats, getCacheStats } from "./sitemapCache";
+import { buildSnapshot, writeSnapshot } from "./snapshots";
+import { STALE_THRESHOLDS_DAYS, parseAsOfArg } from "./freshness";
+import {
+  buildAnalysisReports,
+  sourceDomainMap,
+  writeAnalysisReports,
+} from "./reports";
+import { parseExtractionArgs, parsePathArgs, snapshotDir } from "./cliOptions";
+import { resolveBaselineSources } from "./projectConfig";
+import { configureLogger, logger, parseLogArgs } from "./logger";
+import {
+  formatValidationProblems,
+  parseMinExtractionRateArg,
+  validateAnalysis,
+} from "./validation";
+
+// Number of source combinations echoed to the console
+const TOP_INTERSECTIONS_SHOWN = 10;
+
+/**
+ * Runs the overlap analysis with the given command line arguments
+ */
+export async function runAnalyze(args: string[]): Promise<void> {
+  const endTimer = logger.time("Total execution time", { stage: "analyze" });
+  const paths = parsePathArgs(args);
+  const { outputDir } = paths;
+
+  const extractionOptions = parseExtractionArgs(args, paths);
+  const { baseline, competitors, naming } = await resolveBaselineSources(
+    args,
+    paths
+  );
+
+  // Sort by --sort-by (overlap, coverage, jaccard, competitor-only, baseline-only)
+  const sortBy = parseSortMetricArg(args);
+  // Optionally also match brands across ccTLDs and aliases (--brand-matching)
+  const resolveBrand = args.includes("--brand-matching")
+    ? createBrandResolver()
+    : undefined;
+  // Optionally also weight merchants from a local CSV (--weights <file>,
+  // --weight-column <name>, --default-weight <n>)
+  const weightArgs = parseWeightArgs(args);
+  const merchantWeights = weightArgs
+    ? await loadMerchantWeights(weightArgs.filePath, {
+        ...weightArgs,
+        registrableDomain: extractionOptions.registrableDomain,
+      })
+    : undefined;
+  // Optionally also break the overlap down by category from a local
+  // domain-to-category CSV (--categories <file>)
+  const categoriesPath = parseCategoriesArg(args);
+  const categoryMap = categoriesPath
+    ? await loadCategoryMap(categoriesPath, extractionOptions)
+    : undefined;
+
+  const result = await analyze({
+    baseline,
+    competitors,
+    options: {
+      ...extractionOptions,
+      sortBy,
+      resolveBrand,
+      merchantWeights,
+      merchantWeightsFile: weightArgs?.filePath,
+      categoryMap,
+    },
+  });
+  const { baselineDomains, competitorResults, model } = result;
+  const { baselineBrandsCount } = model.results;
+
+  // Check that every sitemap parsed, held URLs and yielded enough domains
+  // (--min-extraction-rate <percent>); with --strict any problem fails the run
+  // before the results are written
+  const { report: validationReport, reportPath: validationPath } =
+    await validateAnalysis(
+      result,
+      outputDir,
+      args.includes("--strict"),
+      parseMinExtractionRateArg(args)
+    );
+  if (validationReport.problems.length > 0) {
+    logger.warn(
+      `\nWarning: ${
+        validationReport.problems.length
+      } input validation problems, saved to ${validationPath}:\n${formatValidationProblems(
+        validationReport
+      )}`,
+      {
+        stage: "validate",
+        file: validationPath,
+        counts: { problems: validationReport.problems.length },
+      }
+    );
+  }
+
+  // Output the results
+  logger.text("\n--- Domain Overlap Analysis Results ---");
+  logger.info(`${baseline.name} has ${baselineDomains.size} unique domains`, {
+    stage: "compare",
+    source: baseline.name,
+    counts: { domains: baselineDomains.size },
+  });
+  // console.log(`Average overlap with competitors: ${averageOverlap}%`);
+
+  logger.text(`\nCompetitor Overlap (sorted by ${sortBy}):`);
+  logger.text("-".repeat(120));
+  logger.text(
+    "Competitor | Total Domains | Overlapping | Percentage | Baseline Coverage | Jaccard | Competitor Only | Baseline Only"
+  );
+  logger.text("-".repeat(120));
+
+  for (const competitor of competitorResults) {
+    logger.info(
+      `${competitor.competitorName.padEnd(20)} | ` +
+        `${competitor.totalDomains.toString().padEnd(13)} | ` +
+        `${competitor.overlappingDomains.toString().padEnd(11)} | ` +
+        `${(competitor.overlapPercentage.toFixed(2) + "%").padEnd(10)} | ` +
+        `${(competitor.baselineCoveragePercentage.toFixed(2) + "%").padEnd(
+          17
+        )} | ` +
+        `${competitor.jaccardSimilarity.toFixed(4).padEnd(7)} | ` +
+        `${competitor.competitorOnlyDomains.toString().padEnd(15)} | ` +
+        `${competitor.baselineOnlyDomains}`,
+      {
+        stage: "compare",
+        source: competitor.competitorName,
+        counts: {
+          totalDomains: competitor.totalDomains,
+          overlappingDomains: competitor.overlappingDomains,
+          competitorOnlyDomains: competitor.competitorOnlyDomains,
+          baselineOnlyDomains: competitor.baselineOnlyDomains,
+        },
+      }
+    );
+  }
+
+  if (baselineBrandsCount !== undefined) {
+    logger.text(
+      `\nBrand-Level Overlap (${baseline.name} has ${baselineBrandsCount} brands):`
+    );
+    logger.text("-".repeat(100));
+    logger.text(
+      "Competitor | Total Brands | Overlapping | Percentage | Exact Percentage | Baseline Coverage"
+    );
+    logger.text("-".repeat(100));
+
+    for (const competitor of competitorResults) {
+      const brandLevel = competitor.brandLevel!;
+      logger.info(
+        `${competitor.competitorName.padEnd(20)} | ` +
+          `${brandLevel.totalBrands.toString().padEnd(12)} | ` +
+          `${brandLevel.overlappingBrands.toString().padEnd(11)} | ` +
+          `${(brandLevel.overlapPercentage.toFixed(2) + "%").padEnd(10)} | ` +
+          `${(competitor.overlapPercentage.toFixed(2) + "%").padEnd(16)} | ` +
+          `${brandLevel.baselineCoveragePercentage.toFixed(2)}%`,
+        {
+          stage: "brands",
+          source: competitor.competitorName,
+          counts: {
+            totalBrands: brandLevel.totalBrands,
+            overlappingBrands: brandLevel.overlappingBrands,
+          },
+        }
+      );
+    }
+  }
+
+  if (weightArgs && merchantWeights) {
+    logger.text(
+      `\nWeighted Overlap (${merchantWeights.weights.size} weighted domains from ${weightArgs.filePath}, default weight ${merchantWeights.defaultWeight}):`
+    );
+    logger.text("-".repeat(110));
+    logger.text(
+      "Competitor | Total Weight | Covered Weight | Weighted % | Exact Percentage | Missing Weight | Default-Weighted"
+    );
+    logger.text("-".repeat(110));
+
+    for (const competitor of competitorResults) {
+      const weighted = competitor.weighted!;
+      logger.info(
+        `${competitor.competitorName.padEnd(20)} | ` +
+          `${weighted.totalWeight.toString().padEnd(12)} | ` +
+          `${weighted.overlappingWeight.toString().padEnd(14)} | ` +
+          `${(weighted.weightedOverlapPercentage.toFixed(2) + "%").padEnd(
+            10
+          )} | ` +
+          `${(competitor.overlapPercentage.toFixed(2) + "%").padEnd(16)} | ` +
+          `${weighted.missingWeight.toString().padEnd(14)} | ` +
+          `${weighted.defaultWeightedDomains}`,
+        {
+          stage: "weights",
+          source: competitor.competitorName,
+          counts: {
+            totalWeight: weighted.totalWeight,
+            overlappingWeight: weighted.overlappingWeight,
+            missingWeight: weighted.missingWeight,
+          },
+        }
+      );
+    }
+  }
+
+  // Build and save the reports: the ignored URLs per source, the analysis
+  // model the CSV and chart stages render (so their numbers always agree
+  // with the results), the overlap matrix and intersections of every source,
+  // the merchant gaps in both directions and the catalog freshness, with page
+  // ages measured from --as-of (default: now)
+  const reports = buildAnalysisReports(result, parseAsOfArg(args));
+  const reportPaths = await writeAnalysisReports(
+    result,
+    reports,
+    naming,
+    outputDir
+  );
+  const { intersections, merchantGaps, uniqueDomains } = reports;
+  logger.info(
+    `\nIgnored URL diagnostics saved to ${reportPaths.diagnosticsDir}/`,
+    { stage: "write" }
+  );
+  logger.info(`Analysis model saved to ${reportPaths.model}`, {
+    stage: "write",
+    file: reportPaths.model,
+  });
+  logger.info(`Results saved to ${reportPaths.results}`, {
+    stage: "write",
+    file: reportPaths.results,
+  });
+  if (categoryMap && reportPaths.categoryOverlap) {
+    logger.info(
+      `Overlap per category (${categoryMap.size} categorized domains) saved to ${reportPaths.categoryOverlap}`,
+      {
+        stage: "write",
+        file: reportPaths.categoryOverlap,
+        counts: { categorizedDomains: categoryMap.size },
+      }
+    );
+  }
+  logger.info(
+    `Overlap matrix saved to ${outputDir}/overlap-matrix.json and ${outputDir}/overlap-matrix.csv`,
+    { stage: "write" }
+  );
+
+  logger.text(
+    `\nTop source combinations (${intersections.intersections.length} total):`
+  );
+  logger.text("----------------------------------------");
+  for (const intersection of intersections.intersections.slice(
+    0,
+    TOP_INTERSECTIONS_SHOWN
+  )) {
+    logger.text(
+      `${intersection.domainCount.toString().padEnd(8)} | ` +
+        intersection.sources.join(" + ")
+    );
+  }
+  logger.info(`Intersections saved to ${reportPaths.intersections}`, {
+    stage: "write",
+    file: reportPaths.intersections,
+    counts: { combinations: intersections.intersections.length },
+  });
+
+  logger.info(
+    `\n${merchantGaps.length} competitor domains are missing from ${baseline.name}, saved to ${outputDir}/merchant-gaps.json and ${outputDir}/merchant-gaps.csv`,
+    { stage: "write", counts: { merchantGaps: merchantGaps.length } }
+  );
+
+  logger.info(
+    `${uniqueDomains.length} domains are unique to ${baseline.name}, saved to ${reportPaths.uniqueDomains}`,
+    {
+      stage: "write",
+      file: reportPaths.uniqueDomains,
+      counts: { uniqueDomains: uniqueDomains.length },
+    }
+  );
+
+  logger.text(
+    `\nCatalog Freshness (share of merchants not modified in over N days, as of ${reports.freshness.asOf.slice(
+      0,
+      10
+    )}):`
+  );
+  logger.text("-".repeat(120));
+  logger.text(
+    "Competitor | Merchants | With Lastmod | Median Age | >90d | >180d | >365d | Overlapping >365d | Non-Overlapping >365d"
+  );
+  logger.text("-".repeat(120));
+  const formatShare = (share: number | null) =>
+    share === null ? "-" : share.toFixed(2) + "%";
+  for (const freshness of reports.freshness.competitors) {
+    const medianAge =
+      freshness.medianAgeDays === null ? "-" : `${freshness.medianAgeDays}d`;
+    logger.info(
+      `${freshness.competitorName.padEnd(20)} | ` +
+        `${freshness.merchantCount.toString().padEnd(9)} | ` +
+        `${freshness.withLastmodCount.toString().padEnd(12)} | ` +
+        `${medianAge.padEnd(10)} | ` +
+        STALE_THRESHOLDS_DAYS.map((days) =>
+          formatShare(freshness.staleShares[days]).padEnd(7)
+        ).join(" | ") +
+        ` | ${formatShare(freshness.overlapping.staleShares[365]).padEnd(
+          17
+        )} | ` +
+        formatShare(freshness.nonOverlapping.staleShares[365]),
+      {
+        stage: "freshness",
+        source: freshness.competitorName,
+        counts: {
+          merchants: freshness.merchantCount,
+          withLastmod: freshness.withLastmodCount,
+        },
+      }
+    );
+  }
+  logger.info(
+    `Freshness report saved to ${outputDir}/freshness.json and ${outputDir}/freshness.csv`,
+    { stage: "write" }
+  );
+
+  // Keep a dated snapshot of this run for `npm run diff` (skip with
+  // --no-snapshot)
+  if (!args.includes("--no-snapshot")) {
+    const snapshotPath = await writeSnapshot(
+      buildSnapshot(
+        sourceDomainMap(result),
+        competitorResults,
+        baseline.name,
+        extractionOptions.registrableDomain === true
+      ),
+      snapshotDir(paths)
+    );
+    logger.info(`Snapshot saved to ${snapshotPath}`, {
+      stage: "write",
+      file: snapshotPath,
+    });
+  }
+  logger.info(formatCacheStats(extractionOptions), {
+    stage: "cache",
+    counts: { ...getCacheStats() },
+  });
+  endTimer();
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  configureLogger(parseLogArgs(args));
+  runAnalyze(args).catch((err) => {
+    logger.error("Error in main execution:", { error: err });
+    process.exit(1);
+  });
+}
@@ -0,0 +1,144 @@
+import fs from "fs-extra";
+import path from "path";
+import { xml2js } from "xml-js";
+import { configureLogger, logger, parseLogArgs } from "./logger";
+import { findSitemapFiles, streamSitemapUrls } from "./sitemapParser";
+
+interface BenchmarkResult {
+  label: string;
+  files: number;
+  bytes: number;
+  urls: number;
+  durationMs: number;
+  peakHeapBytes: number;
+}
+
+// How often (in URLs) the streaming run samples heap usage
+const HEAP_SAMPLE_INTERVAL = 5000;
+
+/**
+ * Parses every file with the streaming parser, counting URLs
+ */
+async function benchmarkStreaming(files: string[]): Promise<BenchmarkResult> {
+  let urls = 0;
+  let bytes = 0;
+  let peakHeapBytes = process.memoryUsage().heapUsed;
+  const start = process.hrtime.bigint();
+
+  for (const file of files) {
+    bytes += (await fs.stat(file)).size;
+    for await (const _url of streamSitemapUrls(file)) {
+      urls++;
+      if (urls % HEAP_SAMPLE_INTERVAL === 0) {
+        peakHeapBytes = Math.max(peakHeapBytes, process.memoryUsage().heapUsed);
+      }
+    }
+  }
+
+  return {
+    label: "streaming (sax)",
+    files: files.length,
+    bytes,
+    urls,
+    durationMs: Number(process.hrtime.bigint() - start) / 1e6,
+    peakHeapBytes,
+  };
+}
+
+/**
+ * Parses every file the old way: whole file into a string, then a full
+ * compact object tree with xml2js
+ */
+async function benchmarkWholeDocument(
+  files: string[]
+): Promise<BenchmarkResult> {
+  let urls = 0;
+  let bytes = 0;
+  let peakHeapBytes = process.memoryUsage().heapUsed;
+  const start = process.hrtime.bigint();
+
+  for (const file of files) {
+    const content = await fs.readFile(file, "utf-8");
+    bytes += Buffer.byteLength(content);
+    const result = xml2js(content, { compact: true }) as any;
+    peakHeapBytes = Math.max(peakHeapBytes, process.memoryUsage().heapUsed);
+
+    const entries = result.urlset?.url || result.xml?.url || [];
+    urls += Array.isArray(entries) ? entries.length : 1;
+  }
+
+  return {
+    label: "whole-document (xml2js)",
+    files: files.length,
+    bytes,
+    urls,
+    durationMs: Number(process.hrtime.bigint() - start) / 1e6,
+    peakHeapBytes,
+  };
+}
+
+/**
+ * Prints a benchmark result as a single table row
+ */
+function printResult(result: BenchmarkResult) {
+  const seconds = result.durationMs / 1000;
+  const megabytes = result.bytes / (1024 * 1024);
+
+  logger.info(
+    `${result.label.padEnd(24)} | ` +
+      `${result.files.toString().padEnd(5)} | ` +
+      `${result.urls.toString().padEnd(8)} | ` +
+      `${seconds.toFixed(2).padEnd(8)} | ` +
+      `${(megabytes / seconds).toFixed(2).padEnd(8)} | ` +
+      `${Math.round(result.urls / seconds)
+        .toString()
+        .padEnd(10)} | ` +
+      `${(result.peakHeapBytes / (1024 * 1024)).toFixed(1)}`,
+    {
+      stage: "benchmark",
+      source: result.label,
+      counts: { files: result.files, bytes: result.bytes, urls: result.urls },
+      durationMs: result.durationMs,
+    }
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  configureLogger(parseLogArgs(args));
+  const directory = args.find((arg) => !arg.startsWith("--")) || "dealspotr";
+
+  const files = (await findSitemapFiles(directory)).sort();
+  if (files.length === 0) {
+    logger.error(`No sitemap files found in ${directory}`);
+    process.exit(1);
+  }
+
+  logger.info(
+    `Benchmarking sitemap parsing on ${files.length} files in ${path.resolve(
+      directory
+    )}...`
+  );
+
+  // Run the streaming parser first so the whole-document trees don't inflate its heap
+  const streaming = await benchmarkStreaming(files);
+  const wholeDocument = args.includes("--skip-xml2js")
+    ? null
+    : await benchmarkWholeDocument(files);
+
+  logger.text(
+    "\nParser                   | Files | URLs     | Seconds  | MB/s     | URLs/s     | Peak heap (MB)"
+  );
+  logger.text("-".repeat(100));
+  printResult(streaming);
+  if (wholeDocument) {
+    printResult(wholeDocument);
+  }
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    logger.error("Unhandled error in benchmark:", { error: err });
+    process.exit(1);
+  });
+}
@@ -0,0 +1,60 @@
+import { getDomainWithoutSuffix } from "tldts";
+import { normalizeDomain } from "./domainNormalizer";
+import { BrandAliasTable } from "./types";
+import brandAliases from "./brandAliases.json";
+
+/**
+ * Checked-in table of brands whose domains don't share a label
+ * (e.g. nike.com and nikestore.com). Brand names should be written the way
+ * brandLabel() would derive them, so aliased and unaliased domains agree.
+ */
+export const DEFAULT_BRAND_ALIASES: BrandAliasTable = brandAliases;
+
+/**
+ * Maps a canonical domain to the brand it belongs to
+ */
+export type BrandResolver = (domain: string) => string;
+
+/**
+ * Returns the registrable label of a domain, i.e. the registrable domain
+ * without its public suffix: nike.com, nike.co.uk and shop.nike.de all
+ * become "nike". Private suffixes such as square.site count as suffixes, so
+ * every store hosted on them stays its own brand. Domains without a known
+ * suffix are returned unchanged.
+ */
+export function brandLabel(domain: string): string {
+  return (
+    getDomainWithoutSuffix(domain, { allowPrivateDomains: true }) || domain
+  );
+}
+
+/**
+ * Creates a resolver that looks domains up in the alias table first and
+ * otherwise groups them by registrable label across TLDs
+ */
+export function createBrandResolver(
+  aliases: BrandAliasTable = DEFAULT_BRAND_ALIASES
+): BrandResolver {
+  const aliasMap = new Map<string, string>();
+  for (const [brand, domains] of Object.entries(aliases)) {
+    for (const domain of domains) {
+      aliasMap.set(normalizeDomain(domain) || domain, brand);
+    }
+  }
+
+  return (domain) => aliasMap.get(domain) || brandLabel(domain);
+}
+
+/**
+ * Converts a set of domains into the set of brands they belong to
+ */
+export function toBrandSet(
+  domains: Set<string>,
+  resolveBrand: BrandResolver
+): Set<string> {
+  const brands = new Set<string>();
+  for (const domain of domains) {
+    brands.add(resolveBrand(domain));
+  }
+  return brands;
+}
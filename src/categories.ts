@@ -0,0 +1,137 @@
+import fs from "fs-extra";
+import path from "path";
+import { createObjectCsvWriter } from "csv-writer";
+import { parseCsv } from "./csvReader";
+import { normalizeDomain } from "./domainNormalizer";
+import {
+  CategoryMap,
+  CompetitorOverlap,
+  DomainNormalizationOptions,
+} from "./types";
+
+// Bucket of the domains the mapping file doesn't list
+export const UNCATEGORIZED = "Uncategorized";
+
+/**
+ * Orders categories by name with the uncategorized bucket last
+ */
+export function compareCategories(a: string, b: string): number {
+  if (a === UNCATEGORIZED || b === UNCATEGORIZED) {
+    return Number(a === UNCATEGORIZED) - Number(b === UNCATEGORIZED);
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * Parses a domain-to-category mapping from CSV content with a header row,
+ * reading the "domain" and "category" columns (or the first two columns).
+ * Domains are normalized like sitemap domains; rows without a domain or
+ * category are skipped.
+ */
+export function parseCategoryMap(
+  content: string,
+  options: DomainNormalizationOptions = {}
+): CategoryMap {
+  const { header, rows } = parseCsv(content);
+  const domainIndex = header.includes("domain") ? header.indexOf("domain") : 0;
+  const categoryIndex = header.includes("category")
+    ? header.indexOf("category")
+    : 1;
+
+  const categoryMap: CategoryMap = new Map();
+  for (const fields of rows) {
+    const domain = normalizeDomain(fields[domainIndex] || "", options);
+    const category = fields[categoryIndex];
+    if (domain && category) {
+      categoryMap.set(domain, category);
+    }
+  }
+  return categoryMap;
+}
+
+/**
+ * Loads a domain-to-category mapping from a local CSV file
+ */
+export async function loadCategoryMap(
+  filePath: string,
+  options: DomainNormalizationOptions = {}
+): Promise<CategoryMap> {
+  return parseCategoryMap(await fs.readFile(filePath, "utf8"), options);
+}
+
+/**
+ * Reads the `--categories <file>` command line flag
+ */
+export function parseCategoriesArg(args: string[]): string | undefined {
+  if (!args.includes("--categories")) return undefined;
+  return args[args.indexOf("--categories") + 1];
+}
+
+/**
+ * Groups domains by their category, putting unmapped domains in the
+ * "Uncategorized" bucket
+ */
+export function groupByCategory(
+  domains: Set<string>,
+  categoryMap: CategoryMap
+): Map<string, Set<string>> {
+  const categories = new Map<string, Set<string>>();
+  for (const domain of domains) {
+    const category = categoryMap.get(domain) || UNCATEGORIZED;
+    let categoryDomains = categories.get(category);
+    if (!categoryDomains) {
+      categoryDomains = new Set<string>();
+      categories.set(category, categoryDomains);
+    }
+    categoryDomains.add(domain);
+  }
+  return categories;
+}
+
+/**
+ * Writes the overlap per category and competitor to
+ * <outputDir>/category-overlap.csv, grouped by category
+ */
+export async function writeCategoryOverlap(
+  competitorResults: CompetitorOverlap[],
+  outputDir: string
+): Promise<string> {
+  await fs.ensureDir(outputDir);
+  const csvPath = path.join(outputDir, "category-overlap.csv");
+
+  const csvWriter = createObjectCsvWriter({
+    path: csvPath,
+    header: [
+      { id: "category", title: "Category" },
+      { id: "competitor", title: "Competitor" },
+      { id: "totalDomains", title: "Competitor Domains" },
+      { id: "baselineDomains", title: "Baseline Domains" },
+      { id: "overlappingDomains", title: "Overlapping" },
+      { id: "overlapPercentage", title: "Overlap %" },
+      { id: "baselineCoveragePercentage", title: "Baseline Coverage %" },
+    ],
+  });
+
+  // One block of competitors per category, in the order of the results
+  const categories = [
+    ...new Set(
+      competitorResults.flatMap((result) =>
+        (result.categoryLevel || []).map((overlap) => overlap.category)
+      )
+    ),
+  ].sort(compareCategories);
+
+  await csvWriter.writeRecords(
+    categories.flatMap((category) =>
+      competitorResults.flatMap((result) => {
+        const overlap = result.categoryLevel?.find(
+          (candidate) => candidate.category === category
+        );
+        return overlap
+          ? [{ ...overlap, competitor: result.competitorName }]
+          : [];
+      })
+    )
+  );
+  return csvPath;
+}
@@ -0,0 +1,237 @@
+#!/usr/bin/env node
+import { configureLogger, logger, parseLogArgs } from "./logger";
+
+// One command line flag and its description for the help text
+type FlagHelp = [string, string];
+
+interface Command {
+  name: string;
+  summary: string;
+  flags: FlagHelp[];
+  run: (args: string[]) => Promise<void>;
+}
+
+// Exit codes of the binary
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+const CONFIG_FLAG: FlagHelp = [
+  "--config <file>",
+  "Project config (default: merchantcomparison.config.json if present)",
+];
+
+const OUTPUT_FLAG: FlagHelp = [
+  "--output-dir <dir>",
+  "Directory results are written to (default: output)",
+];
+
+const PATH_FLAGS: FlagHelp[] = [
+  CONFIG_FLAG,
+  ["--dealspotr-dir <dir>", "DealsPotr sitemap directory (default: dealspotr)"],
+  [
+    "--competitors-dir <dir>",
+    "Competitor sitemap directory (default: competitors)",
+  ],
+  OUTPUT_FLAG,
+];
+
+const TEST_FLAG: FlagHelp = [
+  "--test",
+  "Use the test scrape state (test-scrape-state.json)",
+];
+
+const EXTRACTION_FLAGS: FlagHelp[] = [
+  ["--baseline <source>", "Source to compare against (default: DealsPotr)"],
+  ["--legacy-field-names", "Keep the DealsPotr-specific output field names"],
+  ["--registrable-domain", "Compare registrable domains (shop.nike.com)"],
+  ["--concurrency <n>", "Number of sitemap parsing worker threads"],
+  ["--no-cache", "Skip the sitemap cache"],
+];
+
+// Accepted by every command
+const LOG_FLAGS: FlagHelp[] = [
+  ["--log-format <format>", "text (default) or json, one event per line"],
+  ["--quiet", "Only log warnings and errors"],
+  ["--verbose", "Also log debug events"],
+];
+
+// Each command's module is loaded on demand so that, for example, `analyze`
+// doesn't need the chart rendering dependencies
+export const COMMANDS: Command[] = [
+  {
+    name: "analyze",
+    summary: "Compare the baseline with every competitor",
+    flags: [
+      ...PATH_FLAGS,
+      ...EXTRACTION_FLAGS,
+      ["--brand-matching", "Also match brands across ccTLDs and aliases"],
+      [
+        "--sort-by <metric>",
+        "overlap, coverage, jaccard, competitor-only or baseline-only",
+      ],
+      ["--weights <file>", "Merchant weight CSV for the weighted overlap"],
+      ["--weight-column <name>", "Weight column of the weight CSV"],
+      ["--default-weight <n>", "Weight of merchants missing from the CSV"],
+      [
+        "--categories <file>",
+        "Domain-to-category CSV for the category overlap",
+      ],
+      ["--as-of <date>", "Date catalog freshness is measured from"],
+      ["--no-snapshot", "Don't save a dated snapshot of the run"],
+      ["--strict", "Fail when an input sitemap doesn't pass validation"],
+      [
+        "--min-extraction-rate <n>",
+        "Lowest % of a source's URLs that must yield a domain (default: 50)",
+      ],
+    ],
+    run: async (args) => (await import("./analyzeCommand")).runAnalyze(args),
+  },
+  {
+    name: "csv",
+    summary: "Write one comparison CSV per competitor from the saved analysis",
+    flags: [
+      OUTPUT_FLAG,
+      ["--legacy-field-names", 'Keep the "dealspotr loc" column titles'],
+      ["--brand-matching", "Add brand-level match columns"],
+    ],
+    run: async (args) => (await import("./generateCSV")).runCsv(args),
+  },
+  {
+    name: "charts",
+    summary: "Render charts from the saved analysis",
+    flags: [OUTPUT_FLAG],
+    run: async (args) => (await import("./generateCharts")).runCharts(args),
+  },
+  {
+    name: "extract-links",
+    summary: "Extract the DontPayFull merchant links into a scrape state",
+    flags: [
+      CONFIG_FLAG,
+      OUTPUT_FLAG,
+      ["--test", "Only scrape the first 2 sitemap pages (test-scrape-state)"],
+    ],
+    run: async (args) =>
+      (await import("./merchantLinkExtractor")).runExtractLinks(args),
+  },
+  {
+    name: "scrape-pages",
+    summary: "Scrape the pending DontPayFull merchant pages",
+    flags: [
+      CONFIG_FLAG,
+      OUTPUT_FLAG,
+      TEST_FLAG,
+      ["--batch-size <n>", "Records to process in this run (default: 2000)"],
+      ["--retry-failed", "Retry records that failed 3 times"],
+      ["--reprocess-completed", "Scrape completed records again"],
+    ],
+    run: async (args) =>
+      (await import("./merchantPageScrape")).runScrapePages(args),
+  },
+  {
+    name: "compare-scrape",
+    summary: "Compare the baseline with the DontPayFull scrape state",
+    flags: [...PATH_FLAGS, TEST_FLAG, ...EXTRACTION_FLAGS],
+    run: async (args) =>
+      (await import("./compareScrapeState")).runCompareScrape(args),
+  },
+  {
+    name: "diff",
+    summary: "Diff two saved analysis snapshots",
+    flags: [
+      OUTPUT_FLAG,
+      ["--list", "List the saved snapshots"],
+      ["--since <id>", "Older snapshot id or prefix (default: the previous)"],
+      ["--to <id>", "Newer snapshot id or prefix (default: the latest)"],
+    ],
+    run: async (args) => (await import("./diffSnapshots")).runDiff(args),
+  },
+  {
+    name: "status",
+    summary: "Show the inputs, saved results, snapshots and scrape state",
+    flags: [...PATH_FLAGS, TEST_FLAG],
+    run: async (args) => (await import("./status")).runStatus(args),
+  },
+];
+
+/**
+ * Formats flags as an aligned two-column list
+ */
+function formatFlags(flags: FlagHelp[]): string {
+  const width = Math.max(...flags.map(([flag]) => flag.length));
+  return flags
+    .map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`)
+    .join("\n");
+}
+
+/**
+ * Returns the help text of the binary, or of one command
+ */
+export function formatHelp(command?: Command): string {
+  if (command) {
+    return [
+      `Usage: merchant-compare ${command.name} [options]`,
+      "",
+      command.summary,
+      "",
+      "Options:",
+      formatFlags([
+        ...command.flags,
+        ...LOG_FLAGS,
+        ["--help", "Show this help"],
+      ]),
+    ].join("\n");
+  }
+
+  const width = Math.max(...COMMANDS.map(({ name }) => name.length));
+  return [
+    "Usage: merchant-compare <command> [options]",
+    "",
+    "Commands:",
+    ...COMMANDS.map(
+      ({ name, summary }) => `  ${name.padEnd(width)}  ${summary}`
+    ),
+    "",
+    'Run "merchant-compare <command> --help" for the options of a command.',
+  ].join("\n");
+}
+
+/**
+ * Runs a command from the arguments following the binary name and returns
+ * the exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [name, ...args] = argv;
+
+  if (!name || name === "--help" || name === "-h" || name === "help") {
+    console.log(formatHelp());
+    return name ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const command = COMMANDS.find((candidate) => candidate.name === name);
+  if (!command) {
+    console.error(`Unknown command "${name}"\n`);
+    console.error(formatHelp());
+    return EXIT_USAGE;
+  }
+
+  if (args.includes("--help") || args.includes("-h")) {
+    console.log(formatHelp(command));
+    return EXIT_OK;
+  }
+
+  configureLogger(parseLogArgs(args));
+  try {
+    await command.run(args);
+    return EXIT_OK;
+  } catch (error) {
+    logger.error(`merchant-compare ${name} failed:`, { stage: name, error });
+    return EXIT_FAILURE;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,89 @@
+import path from "path";
+import { COMPETITORS_DIR, DEALSPOTR_SOURCE } from "./sources";
+import { parseConcurrencyArg } from "./workerPool";
+import { SitemapProcessingOptions, SitemapSource } from "./types";
+
+export const DEFAULT_OUTPUT_DIR = "output";
+export const DEFAULT_CONFIG_FILE = "merchantcomparison.config.json";
+
+// Input and output locations shared by every command
+export interface CommandPaths {
+  dealspotrDir: string; // --dealspotr-dir, defaults to dealspotr
+  competitorsDir: string; // --competitors-dir, defaults to competitors
+  outputDir: string; // --output-dir, defaults to output
+  testMode: boolean; // --test, works on the test- scrape state
+  configFile?: string; // --config, else merchantcomparison.config.json if present
+}
+
+/**
+ * Reads the value following a command line flag
+ */
+export function readFlag(args: string[], flag: string): string | undefined {
+  if (!args.includes(flag)) return undefined;
+  return args[args.indexOf(flag) + 1];
+}
+
+/**
+ * Reads the `--dealspotr-dir`, `--competitors-dir`, `--output-dir`, `--test`
+ * and `--config` command line flags
+ */
+export function parsePathArgs(args: string[]): CommandPaths {
+  return {
+    dealspotrDir: readFlag(args, "--dealspotr-dir") || DEALSPOTR_SOURCE.path,
+    competitorsDir: readFlag(args, "--competitors-dir") || COMPETITORS_DIR,
+    outputDir: readFlag(args, "--output-dir") || DEFAULT_OUTPUT_DIR,
+    testMode: args.includes("--test"),
+    configFile: readFlag(args, "--config"),
+  };
+}
+
+/**
+ * Returns the DealsPotr source read from the configured directory
+ */
+export function dealspotrSource(paths: CommandPaths): SitemapSource {
+  return paths.dealspotrDir === DEALSPOTR_SOURCE.path
+    ? DEALSPOTR_SOURCE
+    : { ...DEALSPOTR_SOURCE, path: paths.dealspotrDir };
+}
+
+/**
+ * Returns the DontPayFull scrape state file, test-scrape-state.json in test mode
+ */
+export function scrapeStatePath(paths: CommandPaths): string {
+  return path.join(
+    paths.outputDir,
+    `${paths.testMode ? "test-" : ""}scrape-state.json`
+  );
+}
+
+/**
+ * Returns the sitemap cache directory inside the output directory
+ */
+export function cacheDir(paths: CommandPaths): string {
+  return path.join(paths.outputDir, ".cache");
+}
+
+/**
+ * Returns the snapshot directory inside the output directory
+ */
+export function snapshotDir(paths: CommandPaths): string {
+  return path.join(paths.outputDir, "snapshots");
+}
+
+/**
+ * Reads the extraction flags shared by the sitemap commands: optionally
+ * compare registrable domains (shop.nike.com -> nike.com) with
+ * `--registrable-domain`, parse sitemaps across `--concurrency` worker
+ * threads and skip the sitemap cache with `--no-cache`
+ */
+export function parseExtractionArgs(
+  args: string[],
+  paths: CommandPaths
+): SitemapProcessingOptions {
+  return {
+    registrableDomain: args.includes("--registrable-domain"),
+    concurrency: parseConcurrencyArg(args),
+    cache: !args.includes("--no-cache"),
+    cacheDir: cacheDir(paths),
+  };
+}
@@ -1,14 +1,23 @@
 import fs from "fs-extra";
 import path from "path";
 import { createObjectCsvWriter } from "csv-writer";
-import {
-  processDirectory,
-  parseSitemapFile,
-  extractDomainsFromSitemap,
-  extractDomain,
-} from "./sitemapParser";
+import { firstUrlByDomain } from "./sitemapParser";
 import { compareAllCompetitors } from "./comparison";
-import { AnalysisResult, CompetitorOverlap } from "./types";
+import { normalizeDomain } from "./domainNormalizer";
+import { formatCacheStats, getCacheStats } from "./sitemapCache";
+import { parseExtractionArgs, parsePathArgs } from "./cliOptions";
+import {
+  resolveBaselineSources,
+  resolveScrapeStatePath,
+} from "./projectConfig";
+import { extractSourceDomains } from "./sources";
+import { configureLogger, logger, parseLogArgs } from "./logger";
+import {
+  BaselineNaming,
+  CompetitorOverlap,
+  DomainExtractionOptions,
+  UrlDomainPair,
+} from "./types";
 
 interface MerchantRecord {
   url: string;
@@ -45,71 +54,44 @@ interface ComparisonRecord {
 }
 
 /**
- * Extract domains from scrape-state.json
+ * Extract domains from the merchant records of scrape-state.json
  */
-async function extractDomainsFromScrapeState(
-  scrapeStateFilePath: string
-): Promise<Set<string>> {
-  console.log(`Reading domains from ${scrapeStateFilePath}...`);
-
+function extractDomainsFromScrapeState(
+  data: ScrapeState,
+  options: DomainExtractionOptions = {}
+): Set<string> {
   try {
-    // Create a read stream for the scrape-state.json file
-    const data = (await fs.readJSON(scrapeStateFilePath)) as ScrapeState;
-
     const domains = new Set<string>();
 
     // Log the total links from the scrape-state summary data
-    console.log(`Total links in scrape-state: ${data.totalLinks}`);
+    logger.info(`Total links in scrape-state: ${data.totalLinks}`);
 
-    console.log(
+    logger.info(
       `\nProcessing ${data.merchantRecords.length} records from scrape-state.json...`
     );
 
-    // Extract urlPath from each merchant record
+    // Extract the canonical urlPath domain from each merchant record
     for (const record of data.merchantRecords) {
-      domains.add(record.urlPath);
+      const domain = record.urlPath
+        ? normalizeDomain(record.urlPath, options)
+        : null;
+      if (domain) {
+        domains.add(domain);
+      }
     }
 
-    console.log(`Found ${domains.size} unique domains in scrape-state.json`);
+    logger.info(`Found ${domains.size} unique domains in scrape-state.json`, {
+      stage: "extract",
+      source: "ScrapeState",
+      counts: { domains: domains.size },
+    });
     return domains;
   } catch (error) {
-    console.error(`Error reading scrape-state.json:`, error);
+    logger.error(`Error processing scrape-state.json:`, { error });
     return new Set<string>();
   }
 }
 
-/**
- * Builds a map of domain names to their DealsPotr URLs
- */
-async function buildDealsptrDomainUrlMap(
-  dealsptrDomains: Set<string>
-): Promise<Map<string, string>> {
-  console.log("Building DealsPotr domain to URL lookup map...");
-  const domainUrlMap = new Map<string, string>();
-
-  // Find all sitemap files in the dealspotr directory
-  const dealsptrFiles = (await fs.readdir("dealspotr"))
-    .filter((file) => file.endsWith(".xml"))
-    .map((file) => path.join("dealspotr", file));
-
-  for (const file of dealsptrFiles) {
-    const sitemap = await parseSitemapFile(file, path.basename(file, ".xml"));
-
-    for (const url of sitemap.urls) {
-      const extractedDomain = extractDomain(url.loc);
-      if (extractedDomain && dealsptrDomains.has(extractedDomain.name)) {
-        // Store the first URL we find for each domain (if multiple exist)
-        if (!domainUrlMap.has(extractedDomain.name)) {
-          domainUrlMap.set(extractedDomain.name, url.loc);
-        }
-      }
-    }
-  }
-
-  console.log(`Built lookup map with ${domainUrlMap.size} entries`);
-  return domainUrlMap;
-}
-
 /**
  * Export a set of domains to a CSV file
  */
@@ -118,7 +100,7 @@ async function exportDomainsToCSV(
   outputPath: string,
   title: string
 ): Promise<void> {
-  console.log(`Exporting ${domains.size} ${title} to ${outputPath}...`);
+  logger.info(`Exporting ${domains.size} ${title} to ${outputPath}...`);
 
   const csvWriter = createObjectCsvWriter({
     path: outputPath,
@@ -128,7 +110,7 @@ async function exportDomainsToCSV(
   const records = Array.from(domains).map((domain) => ({ domain }));
 
   await csvWriter.writeRecords(records);
-  console.log(`Exported ${domains.size} domains to ${outputPath}`);
+  logger.info(`Exported ${domains.size} domains to ${outputPath}`);
 }
 
 /**
@@ -136,20 +118,21 @@ async function exportDomainsToCSV(
  */
 function generateComparisonRecords(
   scrapeState: ScrapeState,
-  dealsptrDomains: Set<string>,
-  dealsptrUrlMap: Map<string, string>
+  baselineDomains: Set<string>,
+  baselineUrlMap: Map<string, string>,
+  options: DomainExtractionOptions = {}
 ): ComparisonRecord[] {
   return scrapeState.merchantRecords
     .filter((record) => record.urlPath)
     .map((record) => {
-      const domain = record.urlPath;
-      const isMatched = dealsptrDomains.has(domain);
+      const domain = normalizeDomain(record.urlPath, options) || "";
+      const isMatched = baselineDomains.has(domain);
       return {
         URL: record.url,
         Match_Status: isMatched ? "Matched" : "Not Matched",
-        Last_Segment: domain,
+        Last_Segment: record.urlPath,
         "3rd Party Link": record.hasAmazonDeal || false,
-        "Match URL": isMatched ? dealsptrUrlMap.get(domain) || "" : "",
+        "Match URL": isMatched ? baselineUrlMap.get(domain) || "" : "",
         dataId: record.dataId,
         Merchant_Name: record.storeName || null,
       };
@@ -161,18 +144,21 @@ function generateComparisonRecords(
  */
 async function exportComparisonData(
   scrapeState: ScrapeState,
-  dealsptrDomains: Set<string>,
-  dealsptrUrlMap: Map<string, string>,
+  baselineDomains: Set<string>,
+  baselineUrlMap: Map<string, string>,
   csvOutputPath: string,
   jsonOutputPath: string,
-  competitorResults: CompetitorOverlap[]
+  competitorResults: CompetitorOverlap[],
+  naming: BaselineNaming,
+  options: DomainExtractionOptions = {}
 ): Promise<void> {
-  console.log(`Exporting comparison data to CSV and JSON...`);
+  logger.info(`Exporting comparison data to CSV and JSON...`);
 
   const records = generateComparisonRecords(
     scrapeState,
-    dealsptrDomains,
-    dealsptrUrlMap
+    baselineDomains,
+    baselineUrlMap,
+    options
   );
 
   // Calculate overlapping merchants with Amazon deals
@@ -202,15 +188,20 @@ async function exportComparisonData(
   });
 
   await csvWriter.writeRecords(records);
-  console.log(`Exported ${records.length} records to ${csvOutputPath}`);
+  logger.info(`Exported ${records.length} records to ${csvOutputPath}`);
 
   // Create combined JSON with summary and records
   const combinedJson = {
     summary: {
-      dealsptrDomainsCount: dealsptrDomains.size,
+      [naming.domainsCountField]: baselineDomains.size,
       dontpayfullDomainsCount: scrapeState.merchantRecords.length,
       overlappingDomainsCount: competitorResults[0].overlappingDomains,
       overlapPercentage: competitorResults[0].overlapPercentage,
+      baselineCoveragePercentage:
+        competitorResults[0].baselineCoveragePercentage,
+      jaccardSimilarity: competitorResults[0].jaccardSimilarity,
+      dontpayfullOnlyDomainsCount: competitorResults[0].competitorOnlyDomains,
+      [naming.onlyDomainsCountField]: competitorResults[0].baselineOnlyDomains,
       overlappingWithAmazonDealsCount: overlappingWithAmazonDeals.length,
       inOverlapAmazonDealPercentage: parseFloat(
         amazonDealPercentage.toFixed(2)
@@ -223,10 +214,10 @@ async function exportComparisonData(
 
   // Export to JSON
   await fs.writeJSON(jsonOutputPath, combinedJson, { spaces: 2 });
-  console.log(
+  logger.info(
     `Exported combined summary and ${records.length} records to ${jsonOutputPath}`
   );
-  console.log(
+  logger.info(
     `Found ${
       overlappingWithAmazonDeals.length
     } overlapping merchants with Amazon deals (${amazonDealPercentage.toFixed(
@@ -235,109 +226,159 @@ async function exportComparisonData(
   );
 }
 
-async function main() {
-  try {
-    console.time("Total execution time");
-
-    // Process DealsPotr sitemaps
-    console.log("Processing DealsPotr sitemaps...");
-    const dealsptrDomains = await processDirectory("dealspotr", "DealsPotr");
-    console.log(`Found ${dealsptrDomains.size} unique domains in DealsPotr`);
-
-    // Build a map of domain names to DealsPotr URLs
-    const dealsptrUrlMap = await buildDealsptrDomainUrlMap(dealsptrDomains);
-
-    // Extract domains from scrape-state.json
-    const scrapeStateFilePath = path.join("output", "scrape-state.json");
-    const scrapeStateData = (await fs.readJSON(
-      scrapeStateFilePath
-    )) as ScrapeState;
-    const scrapeStateDomains = await extractDomainsFromScrapeState(
-      scrapeStateFilePath
+/**
+ * Compares the baseline with the DontPayFull scrape state with the given
+ * command line arguments
+ */
+export async function runCompareScrape(args: string[]): Promise<void> {
+  const endTimer = logger.time("Total execution time", {
+    stage: "compare-scrape",
+  });
+  const paths = parsePathArgs(args);
+  const { outputDir } = paths;
+
+  // Compare with scrape-state.json (test-scrape-state.json with --test)
+  const scrapeStateFilePath = await resolveScrapeStatePath(paths);
+  if (!(await fs.pathExists(scrapeStateFilePath))) {
+    throw new Error(
+      `Scrape state not found at ${scrapeStateFilePath}, run "merchant-compare extract-links" first`
     );
+  }
 
-    // Create a Map to use with the comparison function
-    const competitorMap = new Map<string, Set<string>>();
-    competitorMap.set("ScrapeState", scrapeStateDomains);
+  const extractionOptions = parseExtractionArgs(args, paths);
+  const { baseline, naming } = await resolveBaselineSources(args, paths);
+
+  // Process the baseline sitemaps, keeping the first URL of each domain for
+  // the matched records
+  logger.info(`Processing ${baseline.name} sitemaps...`);
+  const urlDomainsMap = new Map<string, UrlDomainPair[]>();
+  const baselineDomains = (
+    await extractSourceDomains(
+      [baseline],
+      extractionOptions,
+      undefined,
+      urlDomainsMap
+    )
+  ).get(baseline.name)!;
+  logger.info(
+    `Found ${baselineDomains.size} unique domains in ${baseline.name}`
+  );
+  const baselineUrlMap = firstUrlByDomain(
+    urlDomainsMap.get(baseline.name) || []
+  );
 
-    // Compare DealsPotr against scrape-state domains
-    console.log(
-      "\nCalculating domain overlap between DealsPotr and scrape-state domains..."
-    );
-    const competitorResults = compareAllCompetitors(
-      dealsptrDomains,
-      competitorMap
+  // Extract domains from scrape-state.json
+  logger.info(`Reading domains from ${scrapeStateFilePath}...`);
+  const scrapeStateData = (await fs.readJSON(
+    scrapeStateFilePath
+  )) as ScrapeState;
+  const scrapeStateDomains = extractDomainsFromScrapeState(
+    scrapeStateData,
+    extractionOptions
+  );
+
+  // Create a Map to use with the comparison function
+  const competitorMap = new Map<string, Set<string>>();
+  competitorMap.set("ScrapeState", scrapeStateDomains);
+
+  // Compare the baseline against scrape-state domains
+  logger.info(
+    `\nCalculating domain overlap between ${baseline.name} and scrape-state domains...`
+  );
+  const competitorResults = compareAllCompetitors(
+    baselineDomains,
+    competitorMap
+  );
+
+  // Output the results
+  logger.text("\n--- Domain Overlap Analysis Results ---");
+  logger.info(`${baseline.name} has ${baselineDomains.size} unique domains`);
+
+  logger.text("\nScrape State Overlap:");
+  logger.text("----------------------------------------");
+  logger.text("Source | Total Domains | Overlapping | Percentage");
+  logger.text("----------------------------------------");
+
+  for (const competitor of competitorResults) {
+    logger.info(
+      `${competitor.competitorName.padEnd(20)} | ` +
+        `${competitor.totalDomains.toString().padEnd(13)} | ` +
+        `${competitor.overlappingDomains.toString().padEnd(11)} | ` +
+        `${competitor.overlapPercentage.toFixed(2)}%`,
+      {
+        stage: "compare",
+        source: competitor.competitorName,
+        counts: {
+          totalDomains: competitor.totalDomains,
+          overlappingDomains: competitor.overlappingDomains,
+        },
+      }
     );
+  }
 
-    // Build the final result
-    const result: AnalysisResult = {
-      dealsptrDomains,
-      competitorResults,
-    };
-
-    // Output the results
-    console.log("\n--- Domain Overlap Analysis Results ---");
-    console.log(`DealsPotr has ${dealsptrDomains.size} unique domains`);
-
-    console.log("\nScrape State Overlap:");
-    console.log("----------------------------------------");
-    console.log("Source | Total Domains | Overlapping | Percentage");
-    console.log("----------------------------------------");
-
-    for (const competitor of competitorResults) {
-      console.log(
-        `${competitor.competitorName.padEnd(20)} | ` +
-          `${competitor.totalDomains.toString().padEnd(13)} | ` +
-          `${competitor.overlappingDomains.toString().padEnd(11)} | ` +
-          `${competitor.overlapPercentage.toFixed(2)}%`
-      );
+  // Find unique domains in the baseline that aren't in scrape-state
+  const uniqueInBaseline = new Set<string>();
+  for (const domain of baselineDomains) {
+    if (!scrapeStateDomains.has(domain)) {
+      uniqueInBaseline.add(domain);
     }
+  }
 
-    // Find unique domains in DealsPotr that aren't in scrape-state
-    const uniqueInDealspotr = new Set<string>();
-    for (const domain of dealsptrDomains) {
-      if (!scrapeStateDomains.has(domain)) {
-        uniqueInDealspotr.add(domain);
-      }
+  // Find unique domains in scrape-state that aren't in the baseline
+  const uniqueInScrapeState = new Set<string>();
+  for (const domain of scrapeStateDomains) {
+    if (!baselineDomains.has(domain)) {
+      uniqueInScrapeState.add(domain);
     }
+  }
 
-    // Find unique domains in scrape-state that aren't in DealsPotr
-    const uniqueInScrapeState = new Set<string>();
-    for (const domain of scrapeStateDomains) {
-      if (!dealsptrDomains.has(domain)) {
-        uniqueInScrapeState.add(domain);
-      }
+  logger.info(
+    `\nUnique domains in ${baseline.name}: ${uniqueInBaseline.size}`,
+    {
+      stage: "compare",
+      source: baseline.name,
+      counts: { uniqueDomains: uniqueInBaseline.size },
     }
+  );
+  logger.info(`Unique domains in ScrapeState: ${uniqueInScrapeState.size}`, {
+    stage: "compare",
+    source: "ScrapeState",
+    counts: { uniqueDomains: uniqueInScrapeState.size },
+  });
 
-    console.log(`\nUnique domains in DealsPotr: ${uniqueInDealspotr.size}`);
-    console.log(`Unique domains in ScrapeState: ${uniqueInScrapeState.size}`);
-
-    // Create output directory if it doesn't exist
-    const outputDir = "output";
-    const csvOutputDir = path.join(outputDir, "csv-output");
-    await fs.ensureDir(outputDir);
-    await fs.ensureDir(csvOutputDir);
-
-    // Export comprehensive data with all domains from scrape-state as both CSV and JSON
-    await exportComparisonData(
-      scrapeStateData,
-      dealsptrDomains,
-      dealsptrUrlMap,
-      path.join(csvOutputDir, "dontpayfull.com-comparison.csv"),
-      path.join(outputDir, "dontpayfull.com-comparison.json"),
-      competitorResults
-    );
+  // Create output directory if it doesn't exist
+  const filePrefix = paths.testMode ? "test-" : "";
+  const csvOutputDir = path.join(outputDir, "csv-output");
+  await fs.ensureDir(outputDir);
+  await fs.ensureDir(csvOutputDir);
+
+  // Export comprehensive data with all domains from scrape-state as both CSV and JSON
+  await exportComparisonData(
+    scrapeStateData,
+    baselineDomains,
+    baselineUrlMap,
+    path.join(csvOutputDir, `${filePrefix}dontpayfull.com-comparison.csv`),
+    path.join(outputDir, `${filePrefix}dontpayfull.com-comparison.json`),
+    competitorResults,
+    naming,
+    extractionOptions
+  );
 
-    console.log(
-      `\nResults saved to ${outputDir}/dontpayfull.com-comparison.json`
-    );
-    console.timeEnd("Total execution time");
-  } catch (error) {
-    console.error("Error in main execution:", error);
-  }
+  logger.info(
+    `\nResults saved to ${outputDir}/${filePrefix}dontpayfull.com-comparison.json`
+  );
+  logger.info(formatCacheStats(extractionOptions), {
+    stage: "cache",
+    counts: { ...getCacheStats() },
+  });
+  endTimer();
 }
 
-main().catch((err) => {
-  console.error("Unhandled error in main:", err);
-  process.exit(1);
-});
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  configureLogger(parseLogArgs(args));
+  runCompareScrape(args).catch((err) => {
+    logger.error("Error in main execution:", { error: err });
+    process.exit(1);
+  });
+}
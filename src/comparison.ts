@@ -1,4 +1,32 @@
-import { CompetitorOverlap } from "./types";
+import { BrandResolver, toBrandSet } from "./brandResolver";
+import { compareCategories, groupByCategory } from "./categories";
+import { logger } from "./logger";
+import {
+  BrandOverlap,
+  CategoryMap,
+  CategoryOverlap,
+  CompetitorOverlap,
+  MerchantWeights,
+  OverlapSortMetric,
+  WeightedOverlap,
+} from "./types";
+
+// Values accepted by the --sort-by flag
+export const SORT_METRIC_ARGS: Record<string, OverlapSortMetric> = {
+  overlap: "overlapPercentage",
+  coverage: "baselineCoveragePercentage",
+  jaccard: "jaccardSimilarity",
+  "competitor-only": "competitorOnlyDomains",
+  "baseline-only": "baselineOnlyDomains",
+};
+
+/**
+ * Rounds a number to the given number of decimal places
+ */
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
 
 /**
  * Calculates the overlap between two sets of domains
@@ -15,42 +43,197 @@ export function calculateOverlap(
     }
   }
 
-  // Calculate the percentage of overlap
+  // Calculate the percentage of overlap in both directions
   // Avoid division by zero
   const overlapPercentage =
     targetSet.size > 0 ? (overlap.size / targetSet.size) * 100 : 0;
+  const baselineCoveragePercentage =
+    sourceSet.size > 0 ? (overlap.size / sourceSet.size) * 100 : 0;
+
+  const unionSize = sourceSet.size + targetSet.size - overlap.size;
+  const jaccardSimilarity = unionSize > 0 ? overlap.size / unionSize : 0;
 
   return {
     competitorName: "unknown", // Will be set by the caller
     totalDomains: targetSet.size,
     overlappingDomains: overlap.size,
-    overlapPercentage: Math.round(overlapPercentage * 100) / 100, // Round to 2 decimal places
+    overlapPercentage: round(overlapPercentage, 2),
+    baselineCoveragePercentage: round(baselineCoveragePercentage, 2),
+    jaccardSimilarity: round(jaccardSimilarity, 4),
+    competitorOnlyDomains: targetSet.size - overlap.size,
+    baselineOnlyDomains: sourceSet.size - overlap.size,
+  };
+}
+
+/**
+ * Calculates the overlap between two sets of brands
+ */
+export function calculateBrandOverlap(
+  sourceBrands: Set<string>,
+  targetBrands: Set<string>
+): BrandOverlap {
+  const overlap = calculateOverlap(sourceBrands, targetBrands);
+  return {
+    totalBrands: overlap.totalDomains,
+    overlappingBrands: overlap.overlappingDomains,
+    overlapPercentage: overlap.overlapPercentage,
+    baselineCoveragePercentage: overlap.baselineCoveragePercentage,
   };
 }
 
 /**
- * Compares DealsPotr domains against all competitors
+ * Calculates the share of a competitor's merchant weight the baseline covers.
+ * Domains missing from the weight list count with the default weight.
+ */
+export function calculateWeightedOverlap(
+  sourceSet: Set<string>,
+  targetSet: Set<string>,
+  merchantWeights: MerchantWeights
+): WeightedOverlap {
+  let totalWeight = 0;
+  let overlappingWeight = 0;
+  let defaultWeightedDomains = 0;
+
+  for (const domain of targetSet) {
+    let weight = merchantWeights.weights.get(domain);
+    if (weight === undefined) {
+      weight = merchantWeights.defaultWeight;
+      defaultWeightedDomains++;
+    }
+
+    totalWeight += weight;
+    if (sourceSet.has(domain)) {
+      overlappingWeight += weight;
+    }
+  }
+
+  return {
+    totalWeight: round(totalWeight, 2),
+    overlappingWeight: round(overlappingWeight, 2),
+    weightedOverlapPercentage:
+      totalWeight > 0 ? round((overlappingWeight / totalWeight) * 100, 2) : 0,
+    missingWeight: round(totalWeight - overlappingWeight, 2),
+    defaultWeightedDomains,
+  };
+}
+
+/**
+ * Calculates the overlap within each category, given the baseline and
+ * competitor domains grouped by category. Categories come in name order with
+ * the uncategorized bucket last; categories neither side lists are skipped.
+ */
+export function calculateCategoryOverlap(
+  baselineCategories: Map<string, Set<string>>,
+  competitorCategories: Map<string, Set<string>>
+): CategoryOverlap[] {
+  const categories = new Set([
+    ...baselineCategories.keys(),
+    ...competitorCategories.keys(),
+  ]);
+
+  return [...categories].sort(compareCategories).map((category) => {
+    const baselineDomains = baselineCategories.get(category) || new Set();
+    const overlap = calculateOverlap(
+      baselineDomains,
+      competitorCategories.get(category) || new Set()
+    );
+    return {
+      category,
+      totalDomains: overlap.totalDomains,
+      baselineDomains: baselineDomains.size,
+      overlappingDomains: overlap.overlappingDomains,
+      overlapPercentage: overlap.overlapPercentage,
+      baselineCoveragePercentage: overlap.baselineCoveragePercentage,
+    };
+  });
+}
+
+/**
+ * Reads the `--sort-by <metric>` command line flag, defaulting to the share of
+ * each competitor's domains that overlap
+ */
+export function parseSortMetricArg(args: string[]): OverlapSortMetric {
+  if (!args.includes("--sort-by")) return "overlapPercentage";
+
+  const value = args[args.indexOf("--sort-by") + 1];
+  if (Object.prototype.hasOwnProperty.call(SORT_METRIC_ARGS, value)) {
+    return SORT_METRIC_ARGS[value];
+  }
+
+  logger.warn(
+    `Unknown --sort-by value "${value}", expected one of: ${Object.keys(
+      SORT_METRIC_ARGS
+    ).join(", ")}. Sorting by overlap.`
+  );
+  return "overlapPercentage";
+}
+
+export interface CompetitorComparisonOptions {
+  sortBy?: OverlapSortMetric; // Defaults to overlapPercentage
+  resolveBrand?: BrandResolver; // Adds the brand-level overlap
+  merchantWeights?: MerchantWeights; // Adds the weighted overlap
+  categoryMap?: CategoryMap; // Adds the overlap per category
+}
+
+/**
+ * Compares the baseline domains against all competitors, sorted by the given
+ * metric in descending order. With a brand resolver, each result also
+ * reports the brand-level overlap next to the exact-domain overlap; with
+ * merchant weights, the weighted overlap; with a category map, the overlap
+ * per category.
  */
 export function compareAllCompetitors(
-  dealsptrDomains: Set<string>,
-  competitorMap: Map<string, Set<string>>
+  baselineDomains: Set<string>,
+  competitorMap: Map<string, Set<string>>,
+  options: CompetitorComparisonOptions = {}
 ): CompetitorOverlap[] {
+  const {
+    sortBy = "overlapPercentage",
+    resolveBrand,
+    merchantWeights,
+    categoryMap,
+  } = options;
   const results: CompetitorOverlap[] = [];
+  const baselineBrands = resolveBrand
+    ? toBrandSet(baselineDomains, resolveBrand)
+    : null;
+  const baselineCategories = categoryMap
+    ? groupByCategory(baselineDomains, categoryMap)
+    : null;
 
   for (const [competitorName, competitorDomains] of competitorMap.entries()) {
-    const overlap = calculateOverlap(dealsptrDomains, competitorDomains);
+    const overlap = calculateOverlap(baselineDomains, competitorDomains);
     overlap.competitorName = competitorName;
+    if (resolveBrand && baselineBrands) {
+      overlap.brandLevel = calculateBrandOverlap(
+        baselineBrands,
+        toBrandSet(competitorDomains, resolveBrand)
+      );
+    }
+    if (merchantWeights) {
+      overlap.weighted = calculateWeightedOverlap(
+        baselineDomains,
+        competitorDomains,
+        merchantWeights
+      );
+    }
+    if (categoryMap && baselineCategories) {
+      overlap.categoryLevel = calculateCategoryOverlap(
+        baselineCategories,
+        groupByCategory(competitorDomains, categoryMap)
+      );
+    }
     results.push(overlap);
   }
 
-  // Sort results by overlap percentage in descending order, but place zero-domain competitors at the end
+  // Sort results by the chosen metric in descending order, but place zero-domain competitors at the end
   return results.sort((a, b) => {
     // If either has zero domains, sort it to the end
     if (a.totalDomains === 0 && b.totalDomains === 0) return 0;
     if (a.totalDomains === 0) return 1;
     if (b.totalDomains === 0) return -1;
 
-    // Normal sort by percentage for non-zero domain competitors
-    return b.overlapPercentage - a.overlapPercentage;
+    // Normal sort by the metric for non-zero domain competitors
+    return b[sortBy] - a[sortBy];
   });
 }
@@ -0,0 +1,52 @@
+export interface CsvContent {
+  header: string[]; // Column titles, lowercased
+  rows: string[][];
+}
+
+/**
+ * Splits a CSV line into fields, honouring double-quoted fields and "" escapes
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+
+  return fields.map((value) => value.trim());
+}
+
+/**
+ * Parses CSV content with a header row, skipping blank lines. Quoted fields
+ * can't span lines, which is enough for the local lookup files this reads.
+ */
+export function parseCsv(content: string): CsvContent {
+  const [headerLine, ...lines] = content
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+
+  return {
+    header: splitCsvLine(headerLine || "").map((title) => title.toLowerCase()),
+    rows: lines.map(splitCsvLine),
+  };
+}
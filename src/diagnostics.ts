@@ -0,0 +1,129 @@
+import fs from "fs-extra";
+import path from "path";
+import { createObjectCsvWriter } from "csv-writer";
+import {
+  DomainExtraction,
+  SitemapFileResult,
+  SourceDiagnostics,
+  SourceExtractionSummary,
+} from "./types";
+
+/**
+ * Creates an empty diagnostics collector for a source
+ */
+export function createSourceDiagnostics(sourceName: string): SourceDiagnostics {
+  return {
+    sourceName,
+    totalUrls: 0,
+    extractedUrls: 0,
+    ignoredUrls: [],
+    files: [],
+  };
+}
+
+/**
+ * Records the outcome of domain extraction for a single URL
+ */
+export function recordExtraction(
+  diagnostics: SourceDiagnostics,
+  url: string,
+  file: string,
+  extraction: DomainExtraction
+): void {
+  diagnostics.totalUrls++;
+  if (extraction.domain) {
+    diagnostics.extractedUrls++;
+  } else {
+    diagnostics.ignoredUrls.push({ url, reason: extraction.reason, file });
+  }
+}
+
+/**
+ * Merges the diagnostics of a single file into the diagnostics of its source
+ */
+export function mergeDiagnostics(
+  target: SourceDiagnostics,
+  source: SourceDiagnostics
+): void {
+  target.totalUrls += source.totalUrls;
+  target.extractedUrls += source.extractedUrls;
+  for (const ignored of source.ignoredUrls) {
+    target.ignoredUrls.push(ignored);
+  }
+}
+
+/**
+ * Records how one sitemap file of a source went and merges its diagnostics
+ * into the source's
+ */
+export function recordFileResult(
+  target: SourceDiagnostics,
+  file: string,
+  result: SitemapFileResult
+): void {
+  target.files.push({
+    file,
+    totalUrls: result.diagnostics?.totalUrls ?? 0,
+    extractedUrls: result.diagnostics?.extractedUrls ?? 0,
+    ...(result.error !== undefined && { error: result.error }),
+  });
+  if (result.diagnostics) {
+    mergeDiagnostics(target, result.diagnostics);
+  }
+}
+
+/**
+ * Summarizes extracted vs ignored counts for a source, broken down by reason
+ */
+export function summarizeDiagnostics(
+  diagnostics: SourceDiagnostics,
+  uniqueDomains: number
+): SourceExtractionSummary {
+  const ignoredByReason: SourceExtractionSummary["ignoredByReason"] = {};
+  for (const ignored of diagnostics.ignoredUrls) {
+    ignoredByReason[ignored.reason] =
+      (ignoredByReason[ignored.reason] || 0) + 1;
+  }
+
+  const ignoredPercentage =
+    diagnostics.totalUrls > 0
+      ? (diagnostics.ignoredUrls.length / diagnostics.totalUrls) * 100
+      : 0;
+
+  return {
+    sourceName: diagnostics.sourceName,
+    totalUrls: diagnostics.totalUrls,
+    extractedUrls: diagnostics.extractedUrls,
+    ignoredUrls: diagnostics.ignoredUrls.length,
+    ignoredPercentage: Math.round(ignoredPercentage * 100) / 100, // Round to 2 decimal places
+    uniqueDomains,
+    ignoredByReason,
+  };
+}
+
+/**
+ * Writes every ignored URL of a source to <outputDir>/diagnostics/<source>-ignored.csv
+ */
+export async function writeIgnoredUrlsCsv(
+  diagnostics: SourceDiagnostics,
+  outputDir: string
+): Promise<string> {
+  const diagnosticsDir = path.join(outputDir, "diagnostics");
+  await fs.ensureDir(diagnosticsDir);
+
+  const outputPath = path.join(
+    diagnosticsDir,
+    `${diagnostics.sourceName}-ignored.csv`
+  );
+  const csvWriter = createObjectCsvWriter({
+    path: outputPath,
+    header: [
+      { id: "url", title: "URL" },
+      { id: "reason", title: "Reason" },
+      { id: "file", title: "Sitemap File" },
+    ],
+  });
+
+  await csvWriter.writeRecords(diagnostics.ignoredUrls);
+  return outputPath;
+}
@@ -0,0 +1,190 @@
+import { parsePathArgs, readFlag, snapshotDir } from "./cliOptions";
+import { configureLogger, logger, parseLogArgs } from "./logger";
+import {
+  diffSnapshots,
+  findSnapshot,
+  listSnapshots,
+  readSnapshot,
+  writeSnapshotDiff,
+} from "./snapshots";
+import { SourceDiff } from "./types";
+
+/**
+ * Formats the added and removed counts of a source for the console table
+ */
+function formatChanges(sourceDiff: SourceDiff): string {
+  return (
+    `${sourceDiff.previousDomainCount.toString().padEnd(10)} | ` +
+    `${sourceDiff.currentDomainCount.toString().padEnd(10)} | ` +
+    `${("+" + sourceDiff.addedDomains.length).padEnd(9)} | ` +
+    `${("-" + sourceDiff.removedDomains.length).padEnd(9)}`
+  );
+}
+
+/**
+ * Domain counts of a source for its log event
+ */
+function changeCounts(sourceDiff: SourceDiff): Record<string, number> {
+  return {
+    previousDomains: sourceDiff.previousDomainCount,
+    currentDomains: sourceDiff.currentDomainCount,
+    addedDomains: sourceDiff.addedDomains.length,
+    removedDomains: sourceDiff.removedDomains.length,
+  };
+}
+
+/**
+ * Formats an overlap percentage, or "-" for a competitor missing from a snapshot
+ */
+function formatPercentage(value: number | null): string {
+  return value === null ? "-" : value.toFixed(2) + "%";
+}
+
+/**
+ * Picks the snapshots to diff from the saved ids, oldest first: --to
+ * (default: the latest snapshot) and --since (default: the snapshot before
+ * --to). Both take an id or a prefix such as 2026-09; --since must be older
+ * than --to.
+ */
+export function selectDiffSnapshots(
+  snapshotIds: string[],
+  toArg?: string,
+  sinceArg?: string
+): { sinceId: string; toId: string } {
+  const toId = toArg
+    ? findSnapshot(snapshotIds, toArg)
+    : snapshotIds[snapshotIds.length - 1];
+  if (!toId) {
+    throw new Error(
+      `No snapshot matches ${toArg}. Available snapshots: ${snapshotIds.join(
+        ", "
+      )}`
+    );
+  }
+
+  if (!sinceArg) {
+    const sinceId = snapshotIds[snapshotIds.indexOf(toId) - 1];
+    if (!sinceId) {
+      throw new Error(
+        `No snapshot before ${toId} to diff against. Available snapshots: ${snapshotIds.join(
+          ", "
+        )}`
+      );
+    }
+    return { sinceId, toId };
+  }
+
+  const sinceId = findSnapshot(snapshotIds, sinceArg);
+  if (!sinceId) {
+    throw new Error(
+      `No snapshot matches ${sinceArg}. Available snapshots: ${snapshotIds.join(
+        ", "
+      )}`
+    );
+  }
+  if (sinceId >= toId) {
+    throw new Error(
+      `--since ${sinceId} is not older than --to ${toId}; pick an earlier --since or a later --to`
+    );
+  }
+  return { sinceId, toId };
+}
+
+/**
+ * Diffs two saved snapshots with the given command line arguments
+ */
+export async function runDiff(args: string[]): Promise<void> {
+  const paths = parsePathArgs(args);
+  const { outputDir } = paths;
+  const snapshotsDir = snapshotDir(paths);
+  const snapshotIds = await listSnapshots(snapshotsDir);
+
+  // --list only prints the saved snapshots
+  if (args.includes("--list")) {
+    console.log(`Snapshots in ${snapshotsDir}:`);
+    snapshotIds.forEach((id) => console.log(`  ${id}`));
+    return;
+  }
+
+  if (snapshotIds.length < 2) {
+    throw new Error(
+      `Need at least two snapshots in ${snapshotsDir} to diff, found ${snapshotIds.length}; run the analysis ("merchant-compare analyze") to take a snapshot`
+    );
+  }
+
+  const { sinceId, toId } = selectDiffSnapshots(
+    snapshotIds,
+    readFlag(args, "--to"),
+    readFlag(args, "--since")
+  );
+
+  const [previous, current] = await Promise.all([
+    readSnapshot(sinceId, snapshotsDir),
+    readSnapshot(toId, snapshotsDir),
+  ]);
+  if (previous.baselineName !== current.baselineName) {
+    logger.warn(
+      `Warning: the snapshots use different baselines (${previous.baselineName} and ${current.baselineName}), overlap changes are not comparable`
+    );
+  }
+  if (previous.registrableDomain !== current.registrableDomain) {
+    logger.warn(
+      "Warning: only one of the snapshots used --registrable-domain, domain changes are not comparable"
+    );
+  }
+
+  const diff = diffSnapshots(previous, current);
+
+  logger.text(`\n--- Merchant changes from ${sinceId} to ${toId} ---`);
+  logger.text("-".repeat(110));
+  logger.text(
+    "Source               | Before     | After      | Added     | Removed   | Overlap Before | Overlap After | Change"
+  );
+  logger.text("-".repeat(110));
+  logger.info(
+    `${diff.baseline.sourceName.padEnd(20)} | ${formatChanges(
+      diff.baseline
+    )} | (baseline)`,
+    {
+      stage: "diff",
+      source: diff.baseline.sourceName,
+      counts: changeCounts(diff.baseline),
+    }
+  );
+  for (const competitor of diff.competitors) {
+    const change = competitor.overlapPercentageChange;
+    const formattedChange =
+      change === null ? "-" : (change > 0 ? "+" : "") + change.toFixed(2);
+    logger.info(
+      `${competitor.sourceName.padEnd(20)} | ` +
+        `${formatChanges(competitor)} | ` +
+        `${formatPercentage(competitor.previousOverlapPercentage).padEnd(
+          14
+        )} | ` +
+        `${formatPercentage(competitor.currentOverlapPercentage).padEnd(
+          13
+        )} | ` +
+        formattedChange,
+      {
+        stage: "diff",
+        source: competitor.sourceName,
+        counts: changeCounts(competitor),
+      }
+    );
+  }
+
+  await writeSnapshotDiff(diff, outputDir);
+  logger.info(
+    `\nDiff saved to ${outputDir}/snapshot-diff.json and ${outputDir}/snapshot-diff.csv`,
+    { stage: "write" }
+  );
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  configureLogger(parseLogArgs(args));
+  runDiff(args).catch((err) => {
+    logger.error("Error diffing snapshots:", { error: err });
+    process.exit(1);
+  });
+}
@@ -0,0 +1,50 @@
+import { domainToASCII } from "url";
+import { getDomain } from "tldts";
+import { DomainNormalizationOptions } from "./types";
+
+/**
+ * Converts a raw domain (from a URL path segment, hostname or scrape record)
+ * into its canonical form so the same merchant always compares equal:
+ * - lower-cased, with percent-encoding decoded
+ * - leading "www." and trailing dots stripped
+ * - internationalized names converted to punycode
+ * - optionally reduced to the registrable domain (shop.nike.co.uk -> nike.co.uk)
+ *   using the public suffix list bundled with tldts
+ *
+ * Returns null for empty input.
+ */
+export function normalizeDomain(
+  rawDomain: string,
+  options: DomainNormalizationOptions = {}
+): string | null {
+  let domain = rawDomain.trim();
+  try {
+    domain = decodeURIComponent(domain);
+  } catch {
+    // Keep malformed percent-encoding as-is
+  }
+
+  domain = domain
+    .toLowerCase()
+    .replace(/\.+$/, "")
+    .replace(/^www\./, "");
+  if (!domain) return null;
+
+  // domainToASCII returns an empty string for names it can't encode; keep
+  // those as-is rather than dropping the merchant
+  const ascii = domainToASCII(domain);
+  if (ascii) {
+    domain = ascii;
+  }
+
+  if (options.registrableDomain) {
+    // Shared hosts (myshopify.com, square.site) are private suffixes, so each
+    // store on them stays its own merchant
+    const registrable = getDomain(domain, { allowPrivateDomains: true });
+    if (registrable) {
+      domain = registrable;
+    }
+  }
+
+  return domain;
+}
@@ -0,0 +1,87 @@
+import { ExtractionRule, ExtractionRuleSet } from "./types";
+
+/**
+ * Default domain extraction rules.
+ *
+ * `defaults` applies to every URL; an entry in `sources` is merged over it when
+ * the URL's hostname is that host or one of its subdomains. Adding a competitor
+ * with an unusual URL layout only needs a new entry here.
+ */
+export const DEFAULT_EXTRACTION_RULES: ExtractionRuleSet = {
+  version: 1,
+  defaults: {
+    matchDomainSegments: true,
+    knownSegments: [
+      "promo-codes",
+      "store",
+      "coupons",
+      "site",
+      "coupon-codes",
+      "s",
+      "view",
+    ],
+    hostnameFallback: true,
+  },
+  sources: {
+    // /s/<domain>/..., where /s/all and other non-domain segments are listings
+    "capitaloneshopping.com": {
+      pathPatterns: [{ pattern: "^/s/([^/]+)", rejectSegments: ["all"] }],
+    },
+    // /coupons/<category> pages are never merchants
+    "goodsearch.com": {
+      rejectPatterns: [{ pattern: "(?:^|/)coupons/([^/]+)" }],
+    },
+  },
+};
+
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Compiles a rule pattern once and reuses it for every URL
+ */
+export function compilePattern(pattern: string): RegExp {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern);
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Resolves the effective rule for a hostname by merging the most specific
+ * matching source rule over the defaults
+ */
+export function resolveExtractionRule(
+  hostname: string,
+  rules: ExtractionRuleSet = DEFAULT_EXTRACTION_RULES
+): ExtractionRule {
+  const host = hostname.toLowerCase();
+  const sourceKey = Object.keys(rules.sources)
+    .filter((key) => host === key || host.endsWith(`.${key}`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return sourceKey
+    ? { ...rules.defaults, ...rules.sources[sourceKey] }
+    : rules.defaults;
+}
+
+/**
+ * Returns the rules with a source-specific rule taking precedence over both
+ * the defaults and the hostname rules
+ */
+export function withSourceRule(
+  rule: ExtractionRule,
+  rules: ExtractionRuleSet = DEFAULT_EXTRACTION_RULES
+): ExtractionRuleSet {
+  return {
+    version: rules.version,
+    defaults: { ...rules.defaults, ...rule },
+    sources: Object.fromEntries(
+      Object.entries(rules.sources).map(([host, hostRule]) => [
+        host,
+        { ...hostRule, ...rule },
+      ])
+    ),
+  };
+}
@@ -0,0 +1,196 @@
+import fs from "fs-extra";
+import path from "path";
+import { createObjectCsvWriter } from "csv-writer";
+import { logger } from "./logger";
+import {
+  CompetitorFreshness,
+  FreshnessReport,
+  FreshnessSummary,
+} from "./types";
+
+// A merchant is stale when its page wasn't modified in more than N days
+export const STALE_THRESHOLDS_DAYS = [90, 180, 365];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads the `--as-of <date>` command line flag the page ages are measured
+ * from, defaulting to now
+ */
+export function parseAsOfArg(args: string[]): Date {
+  if (!args.includes("--as-of")) return new Date();
+
+  const value = args[args.indexOf("--as-of") + 1];
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    logger.warn(`Unknown --as-of date "${value}", measuring ages from now`);
+    return new Date();
+  }
+  return date;
+}
+
+/**
+ * Summarizes the page ages of a set of merchants as of the given date
+ */
+export function summarizeFreshness(
+  lastmods: (Date | null)[],
+  asOf: Date,
+  thresholdsDays: number[] = STALE_THRESHOLDS_DAYS
+): FreshnessSummary {
+  const ages = lastmods
+    .filter((lastmod): lastmod is Date => lastmod !== null)
+    .map((lastmod) => (asOf.getTime() - lastmod.getTime()) / DAY_MS)
+    .sort((a, b) => a - b);
+
+  const staleShares: Record<string, number | null> = {};
+  for (const days of thresholdsDays) {
+    const staleCount = ages.filter((age) => age > days).length;
+    staleShares[days] =
+      ages.length > 0
+        ? Math.round((staleCount / ages.length) * 10000) / 100
+        : null;
+  }
+
+  return {
+    merchantCount: lastmods.length,
+    withLastmodCount: ages.length,
+    medianAgeDays:
+      ages.length > 0
+        ? Math.floor(ages[Math.floor((ages.length - 1) / 2)])
+        : null,
+    staleShares,
+  };
+}
+
+/**
+ * Builds the freshness of one competitor: its lastmod distribution by month,
+ * its stale shares, and the same split by merchants the baseline does and
+ * doesn't list
+ */
+export function buildCompetitorFreshness(
+  competitorName: string,
+  lastmods: Map<string, Date | null>,
+  baselineDomains: Set<string>,
+  asOf: Date,
+  thresholdsDays: number[] = STALE_THRESHOLDS_DAYS
+): CompetitorFreshness {
+  const overlapping: (Date | null)[] = [];
+  const nonOverlapping: (Date | null)[] = [];
+  const months = new Map<string, number>();
+  let newest: Date | null = null;
+  let oldest: Date | null = null;
+
+  for (const [domain, lastmod] of lastmods.entries()) {
+    (baselineDomains.has(domain) ? overlapping : nonOverlapping).push(lastmod);
+    if (!lastmod) continue;
+
+    const month = lastmod.toISOString().slice(0, 7);
+    months.set(month, (months.get(month) || 0) + 1);
+    if (!newest || lastmod > newest) newest = lastmod;
+    if (!oldest || lastmod < oldest) oldest = lastmod;
+  }
+
+  return {
+    competitorName,
+    ...summarizeFreshness([...lastmods.values()], asOf, thresholdsDays),
+    newestLastmod: newest ? newest.toISOString() : null,
+    oldestLastmod: oldest ? oldest.toISOString() : null,
+    distribution: Object.fromEntries(
+      [...months.entries()].sort(([a], [b]) => a.localeCompare(b))
+    ),
+    overlapping: summarizeFreshness(overlapping, asOf, thresholdsDays),
+    nonOverlapping: summarizeFreshness(nonOverlapping, asOf, thresholdsDays),
+  };
+}
+
+/**
+ * Builds the freshness of every competitor, in the order of the competitor
+ * names, from the newest lastmod of each of their domains
+ */
+export function buildFreshnessReport(
+  competitorNames: string[],
+  lastmods: Map<string, Map<string, Date | null>>,
+  baselineDomains: Set<string>,
+  asOf: Date,
+  thresholdsDays: number[] = STALE_THRESHOLDS_DAYS
+): FreshnessReport {
+  return {
+    asOf: asOf.toISOString(),
+    staleThresholdsDays: thresholdsDays,
+    competitors: competitorNames.map((competitorName) =>
+      buildCompetitorFreshness(
+        competitorName,
+        lastmods.get(competitorName) || new Map(),
+        baselineDomains,
+        asOf,
+        thresholdsDays
+      )
+    ),
+  };
+}
+
+/**
+ * Writes the report to <outputDir>/freshness.json and a one-row-per-competitor
+ * <outputDir>/freshness.csv
+ */
+export async function writeFreshnessReport(
+  report: FreshnessReport,
+  outputDir: string
+): Promise<void> {
+  await fs.ensureDir(outputDir);
+  await fs.writeJSON(path.join(outputDir, "freshness.json"), report, {
+    spaces: 2,
+  });
+
+  // Column prefix, title and summary of each merchant group
+  const groups: [
+    string,
+    string,
+    (competitor: CompetitorFreshness) => FreshnessSummary
+  ][] = [
+    ["", "All", (competitor) => competitor],
+    ["overlapping_", "Overlapping", (competitor) => competitor.overlapping],
+    [
+      "nonOverlapping_",
+      "Non-Overlapping",
+      (competitor) => competitor.nonOverlapping,
+    ],
+  ];
+  const csvWriter = createObjectCsvWriter({
+    path: path.join(outputDir, "freshness.csv"),
+    header: [
+      { id: "competitor", title: "Competitor" },
+      { id: "merchantCount", title: "Merchants" },
+      { id: "withLastmodCount", title: "With Lastmod" },
+      { id: "newestLastmod", title: "Newest Lastmod" },
+      { id: "oldestLastmod", title: "Oldest Lastmod" },
+      ...groups.flatMap(([prefix, label]) => [
+        { id: `${prefix}medianAgeDays`, title: `${label} Median Age (days)` },
+        ...report.staleThresholdsDays.map((days) => ({
+          id: `${prefix}stale_${days}`,
+          title: `${label} Stale >${days}d %`,
+        })),
+      ]),
+    ],
+  });
+
+  await csvWriter.writeRecords(
+    report.competitors.map((competitor) => {
+      const record: Record<string, string | number> = {
+        competitor: competitor.competitorName,
+        merchantCount: competitor.merchantCount,
+        withLastmodCount: competitor.withLastmodCount,
+        newestLastmod: competitor.newestLastmod || "",
+        oldestLastmod: competitor.oldestLastmod || "",
+      };
+      for (const [prefix, , getSummary] of groups) {
+        const summary = getSummary(competitor);
+        record[`${prefix}medianAgeDays`] = summary.medianAgeDays ?? "";
+        for (const days of report.staleThresholdsDays) {
+          record[`${prefix}stale_${days}`] = summary.staleShares[days] ?? "-";
+        }
+      }
+      return record;
+    })
+  );
+}
@@ -0,0 +1,135 @@
+import fs from "fs-extra";
+import path from "path";
+import { createObjectCsvWriter } from "csv-writer";
+import { sourceSlug } from "./sources";
+import { MerchantGap } from "./types";
+
+/**
+ * Lists every domain carried by at least one competitor but missing from
+ * the baseline, ranked by how many competitors carry it (then alphabetically)
+ */
+export function buildMerchantGaps(
+  baselineDomains: Set<string>,
+  competitorMap: Map<string, Set<string>>,
+  competitorUrlMap: Map<string, Map<string, string>>
+): MerchantGap[] {
+  const gaps = new Map<string, MerchantGap>();
+
+  for (const [competitorName, domains] of competitorMap.entries()) {
+    const domainUrls = competitorUrlMap.get(competitorName);
+    for (const domain of domains) {
+      if (baselineDomains.has(domain)) continue;
+
+      let gap = gaps.get(domain);
+      if (!gap) {
+        gap = { domain, competitorCount: 0, competitors: [], sampleUrls: {} };
+        gaps.set(domain, gap);
+      }
+      gap.competitorCount++;
+      gap.competitors.push(competitorName);
+      gap.sampleUrls[competitorName] = domainUrls?.get(domain) || "";
+    }
+  }
+
+  return [...gaps.values()].sort(
+    (a, b) =>
+      b.competitorCount - a.competitorCount || a.domain.localeCompare(b.domain)
+  );
+}
+
+/**
+ * Lists the baseline domains that no competitor has
+ */
+export function findUniqueDomainsInBaseline(
+  baselineDomains: Set<string>,
+  competitorDomainSets: Map<string, Set<string>>
+): string[] {
+  // Combine all competitor domains into one set
+  const allCompetitorDomains = new Set<string>();
+  for (const domains of competitorDomainSets.values()) {
+    domains.forEach((domain) => allCompetitorDomains.add(domain));
+  }
+
+  // Find domains in the baseline that aren't in any competitor's set
+  const uniqueDomains: string[] = [];
+  for (const domain of baselineDomains) {
+    if (!allCompetitorDomains.has(domain)) {
+      uniqueDomains.push(domain);
+    }
+  }
+
+  return uniqueDomains;
+}
+
+/**
+ * Writes the gap list to <outputDir>/merchant-gaps.json and
+ * <outputDir>/merchant-gaps.csv, with one sample URL column per competitor
+ */
+export async function writeMerchantGaps(
+  gaps: MerchantGap[],
+  competitorNames: string[],
+  outputDir: string
+): Promise<void> {
+  await fs.ensureDir(outputDir);
+  await fs.writeJSON(
+    path.join(outputDir, "merchant-gaps.json"),
+    { gapCount: gaps.length, gaps },
+    { spaces: 2 }
+  );
+
+  const csvWriter = createObjectCsvWriter({
+    path: path.join(outputDir, "merchant-gaps.csv"),
+    header: [
+      { id: "domain", title: "Domain" },
+      { id: "competitorCount", title: "Competitor Count" },
+      { id: "competitors", title: "Competitors" },
+      ...competitorNames.map((competitorName) => ({
+        id: `url_${competitorName}`,
+        title: `${competitorName} URL`,
+      })),
+    ],
+  });
+
+  await csvWriter.writeRecords(
+    gaps.map((gap) => {
+      const record: Record<string, string | number> = {
+        domain: gap.domain,
+        competitorCount: gap.competitorCount,
+        competitors: gap.competitors.join("; "),
+      };
+      for (const competitorName of competitorNames) {
+        record[`url_${competitorName}`] = gap.sampleUrls[competitorName] || "";
+      }
+      return record;
+    })
+  );
+}
+
+/**
+ * Writes the domains only the baseline lists to
+ * <outputDir>/<baseline>-unique-domains.json and a single-column CSV,
+ * returning the JSON path
+ */
+export async function writeUniqueDomains(
+  uniqueDomains: string[],
+  baselineName: string,
+  outputDir: string
+): Promise<string> {
+  await fs.ensureDir(outputDir);
+  const sortedDomains = [...uniqueDomains].sort();
+  const baseName = `${sourceSlug(baselineName)}-unique-domains`;
+  const jsonPath = path.join(outputDir, `${baseName}.json`);
+
+  await fs.writeJSON(
+    jsonPath,
+    { uniqueDomainsCount: sortedDomains.length, domains: sortedDomains },
+    { spaces: 2 }
+  );
+
+  const csvWriter = createObjectCsvWriter({
+    path: path.join(outputDir, `${baseName}.csv`),
+    header: [{ id: "domain", title: "Domain" }],
+  });
+  await csvWriter.writeRecords(sortedDomains.map((domain) => ({ domain })));
+  return jsonPath;
+}
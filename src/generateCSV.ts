@@ -1,113 +1,98 @@
 import fs from "fs-extra";
 import path from "path";
 import { createObjectCsvWriter } from "csv-writer";
-import {
-  processDirectory,
-  parseSitemapFile,
-  extractDomainsFromSitemap,
-  extractDomain,
-} from "./sitemapParser";
+import { BrandResolver, createBrandResolver } from "./brandResolver";
+import { readAnalysisModel } from "./analysisModel";
+import { parsePathArgs } from "./cliOptions";
+import { baselineNaming, matchesSourceName, parseBaselineArg } from "./sources";
+import { configureLogger, logger, parseLogArgs } from "./logger";
+import { AnalysisModel, BaselineNaming, UrlDomainPair } from "./types";
 
 interface CsvRow {
   loc: string;
   Match_Status: string;
   domain: string;
-  dealspotr_loc: string;
+  baseline_loc: string;
+  // Only with brand matching
+  brand?: string;
+  Brand_Match_Status?: string;
+  baseline_brand_loc?: string;
+}
+
+// What brand-level matching needs to know about the baseline
+interface BrandMatching {
+  resolveBrand: BrandResolver;
+  brandUrlMap: Map<string, string>; // Brand -> first baseline URL for it
 }
 
 /**
- * Builds a map of domain names to their DealsPotr URLs
+ * Builds a map of brands to the baseline URL of their first domain
  */
-async function buildDealsptrDomainUrlMap(
-  dealsptrFiles: string[]
-): Promise<Map<string, string>> {
-  console.log("Building DealsPotr domain to URL lookup map...");
-  const domainUrlMap = new Map<string, string>();
-
-  for (const file of dealsptrFiles) {
-    const sitemap = await parseSitemapFile(file, path.basename(file, ".xml"));
-
-    for (const url of sitemap.urls) {
-      const extractedDomain = extractDomain(url.loc);
-      if (extractedDomain) {
-        // Store the first URL we find for each domain (if multiple exist)
-        if (!domainUrlMap.has(extractedDomain.name)) {
-          domainUrlMap.set(extractedDomain.name, url.loc);
-        }
-      }
+function buildBaselineBrandUrlMap(
+  domainUrlMap: Map<string, string>,
+  resolveBrand: BrandResolver
+): Map<string, string> {
+  const brandUrlMap = new Map<string, string>();
+  for (const [domain, url] of domainUrlMap.entries()) {
+    const brand = resolveBrand(domain);
+    if (!brandUrlMap.has(brand)) {
+      brandUrlMap.set(brand, url);
     }
   }
-
-  console.log(`Built lookup map with ${domainUrlMap.size} entries`);
-  return domainUrlMap;
+  return brandUrlMap;
 }
 
 /**
- * Process a single sitemap file and return rows for CSV
+ * Turns the extracted URLs of a competitor into CSV rows, matching each
+ * domain against the baseline
  */
-async function processSitemapFile(
-  sitemapFile: string,
-  sourceName: string,
-  dealsptrDomains: Set<string>,
-  domainUrlMap: Map<string, string>
-): Promise<CsvRow[]> {
-  const sitemap = await parseSitemapFile(sitemapFile, sourceName);
-  const rows: CsvRow[] = [];
-
-  // Process each URL in the sitemap
-  for (const url of sitemap.urls) {
-    const domainObj = extractDomain(url.loc);
-
-    if (domainObj) {
-      const domain = domainObj.name;
-      const isMatched = dealsptrDomains.has(domain);
-      const matchStatus = isMatched ? "Matched" : "Not Matched";
-
-      // Get the corresponding DealsPotr URL from our map
-      const dealsptrUrl = isMatched ? domainUrlMap.get(domain) || "" : "";
-
-      rows.push({
-        loc: url.loc,
-        Match_Status: matchStatus,
-        domain,
-        dealspotr_loc: dealsptrUrl,
-      });
+function buildCsvRows(
+  urlDomains: UrlDomainPair[],
+  domainUrlMap: Map<string, string>,
+  brandMatching?: BrandMatching
+): CsvRow[] {
+  return urlDomains.map(([url, domain]) => {
+    // The first baseline URL of the domain, if the baseline lists it
+    const baselineUrl = domainUrlMap.get(domain);
+    const row: CsvRow = {
+      loc: url,
+      Match_Status: baselineUrl ? "Matched" : "Not Matched",
+      domain,
+      baseline_loc: baselineUrl || "",
+    };
+
+    // Report the brand-level match next to the exact-domain match
+    if (brandMatching) {
+      const brand = brandMatching.resolveBrand(domain);
+      const brandUrl = brandMatching.brandUrlMap.get(brand);
+      row.brand = brand;
+      row.Brand_Match_Status = brandUrl ? "Matched" : "Not Matched";
+      row.baseline_brand_loc = brandUrl || "";
     }
-  }
 
-  return rows;
+    return row;
+  });
 }
 
 /**
- * Generate a single CSV file for a competitor, combining all their sitemap files
+ * Generate a single CSV file for a competitor from all the URLs the analysis
+ * extracted from its sitemaps
  */
 async function generateCompetitorCsv(
   competitorName: string,
-  sitemapFiles: string[],
-  dealsptrDomains: Set<string>,
-  domainUrlMap: Map<string, string>
+  urlDomains: UrlDomainPair[],
+  domainUrlMap: Map<string, string>,
+  naming: BaselineNaming,
+  outputDir: string,
+  brandMatching?: BrandMatching
 ) {
-  console.log(
-    `Generating CSV for ${competitorName} (${sitemapFiles.length} sitemaps)...`
-  );
-
-  // Process all sitemap files
-  let allRows: CsvRow[] = [];
-
-  for (const file of sitemapFiles) {
-    const fileName = path.basename(file, ".xml");
-    console.log(`  Processing ${fileName}...`);
-    const rows = await processSitemapFile(
-      file,
-      fileName,
-      dealsptrDomains,
-      domainUrlMap
-    );
-    allRows = allRows.concat(rows);
-  }
+  logger.info(`Generating CSV for ${competitorName}...`, {
+    stage: "csv",
+    source: competitorName,
+  });
+  const allRows = buildCsvRows(urlDomains, domainUrlMap, brandMatching);
 
   // Create output directory if it doesn't exist
-  const outputDir = "output";
   const csvOutputDir = path.join(outputDir, "csv-output");
   await fs.ensureDir(csvOutputDir);
 
@@ -118,107 +103,126 @@ async function generateCompetitorCsv(
       { id: "loc", title: "URL" },
       { id: "Match_Status", title: "Match_Status" },
       { id: "domain", title: "domain" },
-      { id: "dealspotr_loc", title: "dealspotr loc" },
+      { id: "baseline_loc", title: naming.locColumn },
+      ...(brandMatching
+        ? [
+            { id: "brand", title: "brand" },
+            { id: "Brand_Match_Status", title: "Brand_Match_Status" },
+            { id: "baseline_brand_loc", title: naming.brandLocColumn },
+          ]
+        : []),
     ],
   });
 
   // Write CSV
   await csvWriter.writeRecords(allRows);
-  console.log(
-    `CSV file generated: ${csvOutputDir}/${competitorName}-comparison.csv with ${allRows.length} entries`
+  logger.info(
+    `CSV file generated: ${csvOutputDir}/${competitorName}-comparison.csv with ${allRows.length} entries`,
+    { stage: "csv", source: competitorName, counts: { rows: allRows.length } }
   );
 }
 
-async function main() {
-  try {
-    console.time("Total execution time");
-
-    // First get all DealsPotr domains
-    console.log("Processing DealsPotr sitemaps...");
-    const dealsptrFiles = await fs.readdir("dealspotr");
-    const dealsptrFilePaths = dealsptrFiles
-      .filter((file) => file.endsWith(".xml"))
-      .map((file) => path.join("dealspotr", file));
-
-    // Extract all DealsPotr domains
-    const dealsptrDomains = await processDirectory("dealspotr", "DealsPotr");
-    console.log(`Found ${dealsptrDomains.size} unique domains in DealsPotr`);
-
-    // Build lookup map from domain to DealsPotr URL
-    const domainUrlMap = await buildDealsptrDomainUrlMap(dealsptrFilePaths);
-
-    // Group competitor files by competitor name
-    const competitorGroups = new Map<string, string[]>();
-
-    // Process direct competitor files
-    const competitorDir = "competitors";
-    const directCompetitors = (await fs.readdir(competitorDir))
-      .filter((item) => item.endsWith(".xml") && !item.startsWith("."))
-      .map((file) => {
-        const filePath = path.join(competitorDir, file);
-        // Extract base competitor name without numbers or special chars
-        const baseName = path
-          .basename(file, ".xml")
-          .replace(/[\(\d+,\d+\)]/g, "") // Remove (numbers) from name
-          .replace(/-\d+$/, ""); // Remove trailing numbers
-
-        // Add to groups
-        if (!competitorGroups.has(baseName)) {
-          competitorGroups.set(baseName, []);
-        }
-        competitorGroups.get(baseName)!.push(filePath);
-
-        return {
-          name: baseName,
-          path: filePath,
-        };
-      });
-
-    // Process competitor subdirectories
-    const subdirectories = (
-      await fs.readdir(competitorDir, { withFileTypes: true })
-    ).filter((dirent) => dirent.isDirectory() && !dirent.name.startsWith("."));
-
-    for (const subdir of subdirectories) {
-      const subdirPath = path.join(competitorDir, subdir.name);
-      const files = await fs.readdir(subdirPath);
-
-      // Get base competitor name
-      const baseName = subdir.name
-        .replace(/[\(\d+,\d+\)]/g, "") // Remove (numbers) from name
-        .replace(/-\d+$/, ""); // Remove trailing numbers
-
-      // Initialize the group if needed
-      if (!competitorGroups.has(baseName)) {
-        competitorGroups.set(baseName, []);
-      }
-
-      // Add all XML files from this directory
-      const xmlFiles = files
-        .filter((f) => f.endsWith(".xml") && !f.startsWith("."))
-        .map((f) => path.join(subdirPath, f));
-
-      competitorGroups.get(baseName)!.push(...xmlFiles);
-    }
+/**
+ * Fails when the command line asks for a baseline or domain mode the saved
+ * analysis wasn't run with, rather than rendering different numbers
+ */
+function assertModelMatchesArgs(model: AnalysisModel, args: string[]): void {
+  const { baselineName, registrableDomain } = model.metadata;
+  const requestedBaseline = parseBaselineArg(args);
+  if (
+    requestedBaseline &&
+    !matchesSourceName(baselineName, requestedBaseline)
+  ) {
+    throw new Error(
+      `The saved analysis compares against ${baselineName}, run "merchant-compare analyze --baseline ${requestedBaseline}" first`
+    );
+  }
+  if (args.includes("--registrable-domain") && !registrableDomain) {
+    throw new Error(
+      'The saved analysis compares exact domains, run "merchant-compare analyze --registrable-domain" first'
+    );
+  }
+}
 
-    // Generate one CSV per competitor
-    for (const [competitor, files] of competitorGroups.entries()) {
-      await generateCompetitorCsv(
-        competitor,
-        files,
-        dealsptrDomains,
-        domainUrlMap
-      );
-    }
+export interface CsvRenderOptions {
+  legacyFieldNames?: boolean; // Keep the "dealspotr loc" column titles
+  brandMatching?: boolean; // Add brand-level match columns (on when the analysis matched brands)
+}
+
+/**
+ * Writes one comparison CSV per competitor of an analysis model to
+ * <outputDir>/csv-output
+ */
+export async function renderCompetitorCsvs(
+  model: AnalysisModel,
+  outputDir: string,
+  options: CsvRenderOptions = {}
+): Promise<void> {
+  const { baselineName } = model.metadata;
+  const naming = baselineNaming(baselineName, options.legacyFieldNames);
+
+  // Lookup map from domain to its first baseline URL; its keys are exactly
+  // the baseline domains
+  const domainUrlMap = new Map(
+    Object.entries(model.baselineUrls).map(([domain, urls]) => [
+      domain,
+      urls[0],
+    ])
+  );
+  logger.info(`${baselineName} has ${domainUrlMap.size} unique domains`, {
+    stage: "csv",
+    source: baselineName,
+    counts: { domains: domainUrlMap.size },
+  });
+
+  let brandMatching: BrandMatching | undefined;
+  if (model.metadata.brandMatching || options.brandMatching) {
+    const resolveBrand = createBrandResolver();
+    brandMatching = {
+      resolveBrand,
+      brandUrlMap: buildBaselineBrandUrlMap(domainUrlMap, resolveBrand),
+    };
+  }
 
-    console.log("All CSV files generated successfully!");
-    console.timeEnd("Total execution time");
-  } catch (error) {
-    console.error("Error generating CSVs:", error);
+  // Generate one CSV per competitor, combining all its sitemap files
+  for (const [competitorName, urlDomains] of Object.entries(
+    model.competitorUrls
+  )) {
+    await generateCompetitorCsv(
+      competitorName,
+      urlDomains,
+      domainUrlMap,
+      naming,
+      outputDir,
+      brandMatching
+    );
   }
 }
 
-main().catch((err) => {
-  console.error("Unhandled error:", err);
-  process.exit(1);
-});
+/**
+ * Generates the per-competitor comparison CSVs from the saved analysis model
+ * with the given command line arguments
+ */
+export async function runCsv(args: string[]): Promise<void> {
+  const endTimer = logger.time("Total execution time", { stage: "csv" });
+  const { outputDir } = parsePathArgs(args);
+
+  const model = await readAnalysisModel(outputDir);
+  assertModelMatchesArgs(model, args);
+  await renderCompetitorCsvs(model, outputDir, {
+    legacyFieldNames: args.includes("--legacy-field-names"),
+    brandMatching: args.includes("--brand-matching"),
+  });
+
+  logger.info("All CSV files generated successfully!", { stage: "csv" });
+  endTimer();
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  configureLogger(parseLogArgs(args));
+  runCsv(args).catch((err) => {
+    logger.error("Error generating CSVs:", { error: err });
+    process.exit(1);
+  });
+}
@@ -2,29 +2,28 @@ import fs from "fs-extra";
 import path from "path";
 import { ChartJSNodeCanvas } from "chartjs-node-canvas";
 import { createWriteStream } from "fs";
+import { readAnalysisModel } from "./analysisModel";
+import { parsePathArgs } from "./cliOptions";
+import { configureLogger, logger, parseLogArgs } from "./logger";
+import { AnalysisModel, CompetitorOverlap } from "./types";
 
-interface CompetitorOverlap {
-  competitorName: string;
-  totalDomains: number;
-  overlappingDomains: number;
-  overlapPercentage: number;
-}
-
-interface AnalysisResult {
-  dealsptrDomainsCount: number;
-  competitors: CompetitorOverlap[];
-}
+// The counts a bar of the total merchants chart is drawn from
+type MerchantCounts = Pick<
+  CompetitorOverlap,
+  "competitorName" | "totalDomains" | "overlappingDomains" | "overlapPercentage"
+>;
 
 /**
  * Generates a pie chart for a competitor showing the ratio of matched to not matched merchants
  */
 async function generatePieChart(
   competitor: CompetitorOverlap,
+  baselineName: string,
   outputDir: string
 ): Promise<void> {
   // Skip if no merchants
   if (competitor.totalDomains === 0) {
-    console.log(
+    logger.info(
       `Skipping chart for ${competitor.competitorName} - no merchants found`
     );
     return;
@@ -46,7 +45,10 @@ async function generatePieChart(
   const configuration = {
     type: "pie" as const,
     data: {
-      labels: ["Matched with Dealspotr", "Not Matched with Dealspotr"],
+      labels: [
+        `Matched with ${baselineName}`,
+        `Not Matched with ${baselineName}`,
+      ],
       datasets: [
         {
           data: [matched, notMatched],
@@ -59,7 +61,7 @@ async function generatePieChart(
       plugins: {
         title: {
           display: true,
-          text: `${competitor.competitorName} - Dealspotr Merchant Match Ratio`,
+          text: `${competitor.competitorName} - ${baselineName} Merchant Match Ratio`,
           font: {
             size: 16,
           },
@@ -68,7 +70,7 @@ async function generatePieChart(
           display: true,
           text: `Total Merchants: ${
             competitor.totalDomains
-          } | Dealspotr Match Rate: ${competitor.overlapPercentage.toFixed(
+          } | ${baselineName} Match Rate: ${competitor.overlapPercentage.toFixed(
             2
           )}%`,
           font: {
@@ -122,8 +124,9 @@ async function generatePieChart(
   stream.write(buffer);
   stream.end();
 
-  console.log(
-    `Generated chart for ${competitor.competitorName} at ${outputPath}`
+  logger.info(
+    `Generated chart for ${competitor.competitorName} at ${outputPath}`,
+    { stage: "charts", source: competitor.competitorName, file: outputPath }
   );
 }
 
@@ -131,23 +134,23 @@ async function generatePieChart(
  * Generates a summary chart showing overlap percentages for all competitors
  */
 async function generateSummaryChart(
-  analysisResult: AnalysisResult,
+  model: AnalysisModel,
   outputDir: string
 ): Promise<void> {
   // Skip if no competitors
-  if (analysisResult.competitors.length === 0) {
-    console.log("No competitors found for summary chart");
+  if (model.results.competitors.length === 0) {
+    logger.info("No competitors found for summary chart");
     return;
   }
 
   // Filter out competitors with no merchants
-  const validCompetitors = analysisResult.competitors
+  const validCompetitors = model.results.competitors
     .filter((comp) => comp.totalDomains > 0)
     .sort((a, b) => b.overlapPercentage - a.overlapPercentage);
 
   // Skip if no valid competitors
   if (validCompetitors.length === 0) {
-    console.log("No valid competitors found for summary chart");
+    logger.info("No valid competitors found for summary chart");
     return;
   }
 
@@ -166,14 +169,14 @@ async function generateSummaryChart(
       labels: validCompetitors.map((comp) => comp.competitorName),
       datasets: [
         {
-          label: "Matched with Dealspotr",
+          label: `Matched with ${model.metadata.baselineName}`,
           data: validCompetitors.map((comp) => comp.overlappingDomains),
           backgroundColor: "#4BC0C0",
           borderColor: "#3CB1B1",
           borderWidth: 1,
         },
         {
-          label: "Not Matched with Dealspotr",
+          label: `Not Matched with ${model.metadata.baselineName}`,
           data: validCompetitors.map(
             (comp) => comp.totalDomains - comp.overlappingDomains
           ),
@@ -187,14 +190,14 @@ async function generateSummaryChart(
       plugins: {
         title: {
           display: true,
-          text: "Dealspotr Merchant Overlap by Competitor",
+          text: `${model.metadata.baselineName} Merchant Overlap by Competitor`,
           font: {
             size: 18,
           },
         },
         subtitle: {
           display: true,
-          text: `Dealspotr Total Merchants: ${analysisResult.dealsptrDomainsCount}`,
+          text: `${model.metadata.baselineName} Total Merchants: ${model.results.baselineDomainsCount}`,
           font: {
             size: 14,
           },
@@ -250,12 +253,16 @@ async function generateSummaryChart(
   stream.write(buffer);
   stream.end();
 
-  console.log(`Generated summary chart at ${outputPath}`);
+  logger.info(`Generated summary chart at ${outputPath}`, {
+    stage: "charts",
+    file: outputPath,
+  });
 
   // Also generate the percentage-based summary chart
   await generatePercentageSummaryChart(
     validCompetitors,
-    analysisResult.dealsptrDomainsCount,
+    model.metadata.baselineName,
+    model.results.baselineDomainsCount,
     chartOutputDir
   );
 }
@@ -265,7 +272,8 @@ async function generateSummaryChart(
  */
 async function generatePercentageSummaryChart(
   competitors: CompetitorOverlap[],
-  dealsptrDomainCount: number,
+  baselineName: string,
+  baselineDomainCount: number,
   outputDir: string
 ): Promise<void> {
   const width = Math.max(900, competitors.length * 60);
@@ -286,14 +294,14 @@ async function generatePercentageSummaryChart(
       ),
       datasets: [
         {
-          label: "Matched with Dealspotr (%)",
+          label: `Matched with ${baselineName} (%)`,
           data: competitors.map((comp) => comp.overlapPercentage),
           backgroundColor: "#4BC0C0",
           borderColor: "#3CB1B1",
           borderWidth: 1,
         },
         {
-          label: "Not Matched with Dealspotr (%)",
+          label: `Not Matched with ${baselineName} (%)`,
           data: competitors.map((comp) => 100 - comp.overlapPercentage),
           backgroundColor: "#FF6384",
           borderColor: "#FF4D76",
@@ -305,14 +313,14 @@ async function generatePercentageSummaryChart(
       plugins: {
         title: {
           display: true,
-          text: "Dealspotr Merchant Overlap Percentage by Competitor",
+          text: `${baselineName} Merchant Overlap Percentage by Competitor`,
           font: {
             size: 18,
           },
         },
         subtitle: {
           display: true,
-          text: `Dealspotr Total Merchants: ${dealsptrDomainCount}`,
+          text: `${baselineName} Total Merchants: ${baselineDomainCount}`,
           font: {
             size: 14,
           },
@@ -372,30 +380,33 @@ async function generatePercentageSummaryChart(
   stream.write(buffer);
   stream.end();
 
-  console.log(`Generated percentage summary chart at ${outputPath}`);
+  logger.info(`Generated percentage summary chart at ${outputPath}`, {
+    stage: "charts",
+    file: outputPath,
+  });
 }
 
 /**
  * Generates a bar chart showing total merchants per competitor
  */
 async function generateTotalMerchantsChart(
-  analysisResult: AnalysisResult,
+  model: AnalysisModel,
   outputDir: string
 ): Promise<void> {
   // Skip if no competitors
-  if (analysisResult.competitors.length === 0) {
-    console.log("No competitors found for total merchants chart");
+  if (model.results.competitors.length === 0) {
+    logger.info("No competitors found for total merchants chart");
     return;
   }
 
-  // Include all competitors including Dealspotr
-  const allCompetitors = [...analysisResult.competitors];
+  // Include all competitors including the baseline
+  const allCompetitors: MerchantCounts[] = [...model.results.competitors];
 
-  // Add Dealspotr as a "competitor" for comparison
+  // Add the baseline as a "competitor" for comparison
   allCompetitors.push({
-    competitorName: "Dealspotr",
-    totalDomains: analysisResult.dealsptrDomainsCount,
-    overlappingDomains: analysisResult.dealsptrDomainsCount, // All merchants match with itself
+    competitorName: model.metadata.baselineName,
+    totalDomains: model.results.baselineDomainsCount,
+    overlappingDomains: model.results.baselineDomainsCount, // All merchants match with itself
     overlapPercentage: 100,
   });
 
@@ -406,7 +417,7 @@ async function generateTotalMerchantsChart(
 
   // Skip if no valid competitors
   if (sortedCompetitors.length === 0) {
-    console.log("No valid competitors found for total merchants chart");
+    logger.info("No valid competitors found for total merchants chart");
     return;
   }
 
@@ -428,10 +439,14 @@ async function generateTotalMerchantsChart(
           label: "Total Merchant Sites",
           data: sortedCompetitors.map((comp) => comp.totalDomains),
           backgroundColor: sortedCompetitors.map((comp) =>
-            comp.competitorName === "Dealspotr" ? "#6A5ACD" : "#36A2EB"
+            comp.competitorName === model.metadata.baselineName
+              ? "#6A5ACD"
+              : "#36A2EB"
           ),
           borderColor: sortedCompetitors.map((comp) =>
-            comp.competitorName === "Dealspotr" ? "#483D8B" : "#2980B9"
+            comp.competitorName === model.metadata.baselineName
+              ? "#483D8B"
+              : "#2980B9"
           ),
           borderWidth: 1,
         },
@@ -505,51 +520,54 @@ async function generateTotalMerchantsChart(
   stream.write(buffer);
   stream.end();
 
-  console.log(`Generated total merchants chart at ${outputPath}`);
+  logger.info(`Generated total merchants chart at ${outputPath}`, {
+    stage: "charts",
+    file: outputPath,
+  });
 }
 
-async function main() {
-  try {
-    console.time("Chart generation time");
-
-    // Define output directory
-    const outputDir = "output";
-
-    // Read the analysis results
-    const resultsPath = path.join(outputDir, "domain-overlap-results.json");
+/**
+ * Renders the pie, summary and total merchants charts of an analysis model
+ * to <outputDir>/charts
+ */
+export async function renderCharts(
+  model: AnalysisModel,
+  outputDir: string
+): Promise<void> {
+  // Generate a pie chart for each competitor
+  logger.info("Generating pie charts for each competitor...");
+  for (const competitor of model.results.competitors) {
+    await generatePieChart(competitor, model.metadata.baselineName, outputDir);
+  }
 
-    if (!(await fs.pathExists(resultsPath))) {
-      console.error(`Results file not found at ${resultsPath}`);
-      console.error('Please run the analysis first using "npm run start"');
-      process.exit(1);
-    }
+  // Generate a summary chart
+  logger.info("Generating summary charts...");
+  await generateSummaryChart(model, outputDir);
 
-    const analysisResult = (await fs.readJSON(resultsPath)) as AnalysisResult;
+  // Generate total merchants chart
+  logger.info("Generating total merchants chart...");
+  await generateTotalMerchantsChart(model, outputDir);
+}
 
-    // Generate a pie chart for each competitor
-    console.log("Generating pie charts for each competitor...");
-    for (const competitor of analysisResult.competitors) {
-      await generatePieChart(competitor, outputDir);
-    }
+/**
+ * Renders the charts of the saved analysis model with the given command line
+ * arguments
+ */
+export async function runCharts(args: string[]): Promise<void> {
+  const endTimer = logger.time("Chart generation time", { stage: "charts" });
+  const { outputDir } = parsePathArgs(args);
 
-    // Generate a summary chart
-    console.log("Generating summary charts...");
-    await generateSummaryChart(analysisResult, outputDir);
+  await renderCharts(await readAnalysisModel(outputDir), outputDir);
 
-    // Generate total merchants chart
-    console.log("Generating total merchants chart...");
-    await generateTotalMerchantsChart(analysisResult, outputDir);
+  logger.info("All charts generated successfully!", { stage: "charts" });
+  endTimer();
+}
 
-    console.log("All charts generated successfully!");
-    console.timeEnd("Chart generation time");
-  } catch (error) {
-    console.error("Error generating charts:", error);
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  configureLogger(parseLogArgs(args));
+  runCharts(args).catch((err) => {
+    logger.error("Error generating charts:", { error: err });
     process.exit(1);
-  }
+  });
 }
-
-// Run the main function
-main().catch((err) => {
-  console.error("Unhandled error:", err);
-  process.exit(1);
-});
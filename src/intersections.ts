@@ -0,0 +1,84 @@
+import fs from "fs-extra";
+import path from "path";
+import { IntersectionAnalysis, SourceIntersection } from "./types";
+
+/**
+ * Orders two ascending index lists lexicographically
+ */
+function compareIndexes(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Groups every domain by the exact set of sources listing it (UpSet-style),
+ * so e.g. merchants carried only by Rakuten and Capital One Shopping form
+ * their own combination. Combinations are ranked by domain count; ties keep
+ * combinations with fewer sources first, then the order of the source map.
+ */
+export function buildIntersections(
+  sourceMap: Map<string, Set<string>>
+): IntersectionAnalysis {
+  const sources = [...sourceMap.keys()];
+
+  // Key each domain by the indexes of the sources listing it, e.g. "0,3,7"
+  const domainSources = new Map<string, number[]>();
+  sources.forEach((source, index) => {
+    for (const domain of sourceMap.get(source)!) {
+      const indexes = domainSources.get(domain);
+      if (indexes) {
+        indexes.push(index);
+      } else {
+        domainSources.set(domain, [index]);
+      }
+    }
+  });
+
+  const combinations = new Map<
+    string,
+    { indexes: number[]; domains: string[] }
+  >();
+  for (const [domain, indexes] of domainSources) {
+    const key = indexes.join(",");
+    const combination = combinations.get(key);
+    if (combination) {
+      combination.domains.push(domain);
+    } else {
+      combinations.set(key, { indexes, domains: [domain] });
+    }
+  }
+
+  const ranked = [...combinations.values()].sort(
+    (a, b) =>
+      b.domains.length - a.domains.length ||
+      a.indexes.length - b.indexes.length ||
+      compareIndexes(a.indexes, b.indexes)
+  );
+
+  const intersections: SourceIntersection[] = ranked.map((combination) => ({
+    sources: combination.indexes.map((index) => sources[index]),
+    domainCount: combination.domains.length,
+    domains: combination.domains.sort(),
+  }));
+
+  return {
+    sources,
+    totalDomains: domainSources.size,
+    intersections,
+  };
+}
+
+/**
+ * Writes the intersection analysis to <outputDir>/intersections.json
+ */
+export async function writeIntersections(
+  analysis: IntersectionAnalysis,
+  outputDir: string
+): Promise<string> {
+  await fs.ensureDir(outputDir);
+  const outputPath = path.join(outputDir, "intersections.json");
+  await fs.writeJSON(outputPath, analysis, { spaces: 2 });
+  return outputPath;
+}
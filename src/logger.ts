@@ -0,0 +1,224 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFormat =
+  | "text" // Human-readable lines, as printed to a terminal
+  | "json"; // One JSON event per line, for unattended runs
+
+// Structured context of an event; in the text format it is only carried by
+// the message itself
+export interface LogFields {
+  stage?: string; // Pipeline step, e.g. "extract" or "scrape"
+  source?: string; // Sitemap source or competitor name
+  file?: string;
+  counts?: Record<string, number>;
+  durationMs?: number;
+  error?: unknown;
+}
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+}
+
+export interface LogEvent extends Omit<LogFields, "error"> {
+  time: string;
+  level: LogLevel;
+  message: string;
+  error?: string;
+}
+
+export interface ProgressReporter {
+  update(completed: number): void;
+  done(): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const LOG_FORMATS: LogFormat[] = ["text", "json"];
+
+// Width of the progress bar in characters
+const PROGRESS_BAR_WIDTH = 30;
+
+const options: LoggerOptions = { level: "info", format: "text" };
+
+// Progress bar currently drawn on stderr, redrawn below each log line
+let progressLine: string | null = null;
+
+/**
+ * Reads the logging flags shared by every command: `--log-format <text|json>`
+ * (or `--log-format=json`), `--quiet` for warnings and errors only and
+ * `--verbose` for debug events too
+ */
+export function parseLogArgs(args: string[]): Partial<LoggerOptions> {
+  const parsed: Partial<LoggerOptions> = {};
+
+  const inlineFormat = args.find((arg) => arg.startsWith("--log-format="));
+  const format = inlineFormat
+    ? inlineFormat.slice("--log-format=".length)
+    : args.includes("--log-format")
+    ? args[args.indexOf("--log-format") + 1]
+    : undefined;
+  if (format !== undefined) {
+    if (LOG_FORMATS.includes(format as LogFormat)) {
+      parsed.format = format as LogFormat;
+    } else {
+      console.warn(`Unknown --log-format value "${format}", using text`);
+    }
+  }
+
+  if (args.includes("--quiet")) {
+    parsed.level = "warn";
+  } else if (args.includes("--verbose")) {
+    parsed.level = "debug";
+  }
+  return parsed;
+}
+
+/**
+ * Sets the level and format of every following log event
+ */
+export function configureLogger(changes: Partial<LoggerOptions>): void {
+  Object.assign(options, changes);
+}
+
+/**
+ * Current logger settings
+ */
+export function loggerOptions(): LoggerOptions {
+  return { ...options };
+}
+
+function isEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(options.level);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Builds the JSON event of a log call
+ */
+export function buildLogEvent(
+  level: LogLevel,
+  message: string,
+  fields: LogFields = {}
+): LogEvent {
+  const { error, ...context } = fields;
+  return {
+    time: new Date().toISOString(),
+    level,
+    // Blank lines only space out the text format
+    message: message.trim(),
+    ...context,
+    ...(error !== undefined && { error: errorMessage(error) }),
+  };
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields): void {
+  if (!isEnabled(level)) {
+    return;
+  }
+
+  const print =
+    level === "error"
+      ? console.error
+      : level === "warn"
+      ? console.warn
+      : console.log;
+  if (options.format === "json") {
+    print(JSON.stringify(buildLogEvent(level, message, fields)));
+    return;
+  }
+
+  if (progressLine !== null) {
+    process.stderr.write("\r\x1b[2K");
+  }
+  if (fields?.error !== undefined) {
+    print(message, errorMessage(fields.error));
+  } else {
+    print(message);
+  }
+  if (progressLine !== null) {
+    process.stderr.write(progressLine);
+  }
+}
+
+/**
+ * Formats a duration the way console.timeEnd does (e.g. "1.234s")
+ */
+export function formatDuration(durationMs: number): string {
+  return durationMs < 1000
+    ? `${durationMs.toFixed(3)}ms`
+    : `${(durationMs / 1000).toFixed(3)}s`;
+}
+
+/**
+ * Renders a one-line progress bar, e.g. "[#####-----] 50/100 (50.0%)"
+ */
+export function formatProgressBar(completed: number, total: number): string {
+  const ratio = total > 0 ? Math.min(completed / total, 1) : 1;
+  const filled = Math.round(ratio * PROGRESS_BAR_WIDTH);
+  return `[${"#".repeat(filled)}${"-".repeat(
+    PROGRESS_BAR_WIDTH - filled
+  )}] ${completed}/${total} (${(ratio * 100).toFixed(1)}%)`;
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) =>
+    write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    write("error", message, fields),
+
+  /**
+   * Prints presentation-only lines (table rules and headers) in the text
+   * format; the JSON format carries the same data in its events
+   */
+  text(message: string): void {
+    if (options.format === "text") {
+      write("info", message);
+    }
+  },
+
+  /**
+   * Starts timing a stage; the returned function logs "<label>: 1.234s" with
+   * the duration and returns it in milliseconds
+   */
+  time(label: string, fields: LogFields = {}): () => number {
+    const startedAt = Date.now();
+    return () => {
+      const durationMs = Date.now() - startedAt;
+      write("info", `${label}: ${formatDuration(durationMs)}`, {
+        ...fields,
+        durationMs,
+      });
+      return durationMs;
+    };
+  },
+
+  /**
+   * Shows a progress bar on stderr while it is a terminal and the text format
+   * is used; elsewhere progress is left to the regular events
+   */
+  progress(label: string, total: number): ProgressReporter {
+    const stream = process.stderr;
+    const visible =
+      stream.isTTY === true && options.format === "text" && isEnabled("info");
+    return {
+      update(completed: number) {
+        if (visible) {
+          progressLine = `\r${label} ${formatProgressBar(completed, total)}`;
+          stream.write(progressLine);
+        }
+      },
+      done() {
+        if (progressLine !== null) {
+          stream.write("\n");
+          progressLine = null;
+        }
+      },
+    };
+  },
+};
@@ -2,6 +2,9 @@ import fs from "fs-extra";
 import path from "path";
 import dotenv from "dotenv";
 import FirecrawlApp from "@mendable/firecrawl-js";
+import { CommandPaths, parsePathArgs } from "./cliOptions";
+import { configureLogger, logger, parseLogArgs } from "./logger";
+import { resolveScrapeStatePath } from "./projectConfig";
 
 interface ScrapeResponse {
   links?: string[];
@@ -46,17 +49,21 @@ dotenv.config();
 
 /**
  * Extract merchant links from DontPayFull using Firecrawl
- * @param testMode If true, only process a small number of pages for testing
+ * @param paths Output directory and test mode; in test mode only a small
+ * number of pages is processed
  */
 async function extractMerchantLinks(
-  testMode = false
+  paths: CommandPaths
 ): Promise<MerchantRecord[]> {
+  const { testMode } = paths;
   try {
-    console.time("Total execution time");
+    const endTimer = logger.time("Total execution time", {
+      stage: "extract-links",
+    });
 
     // Initialize Firecrawl with API key from environment variables
     const app = new FirecrawlApp({ apiKey: process.env.FIRECRAWL_API_KEY });
-    console.log("Initialized FirecrawlApp with API key");
+    logger.info("Initialized FirecrawlApp with API key");
 
     // Create sitemap URLs for each letter (a-z) and numbers (0-9)
     const alphabet = "abcdefghijklmnopqrstuvwxyz".split("");
@@ -72,13 +79,13 @@ async function extractMerchantLinks(
       ? sitemapURLs.slice(0, 2) // Just first 2 in test mode
       : sitemapURLs;
 
-    console.log(
+    logger.info(
       `Will scrape ${urlsToScrape.length} sitemap pages${
         testMode ? " (TEST MODE)" : ""
       }`
     );
 
-    console.log("Starting batch scrape...");
+    logger.info("Starting batch scrape...");
 
     // Use batch scrape instead of individual scrapes
     const batchResponse = await app.batchScrapeUrls(urlsToScrape, {
@@ -93,24 +100,37 @@ async function extractMerchantLinks(
       batchResponse.success &&
       Array.isArray(batchResponse.data)
     ) {
-      console.log(
+      logger.info(
         `Batch scrape completed. Received ${batchResponse.data.length} results.`
       );
 
       batchResponse.data.forEach((result, index) => {
         const url = urlsToScrape[index];
         if (result && result.links) {
-          console.log(`Scraped ${result.links.length || 0} links from ${url}`);
+          logger.info(`Scraped ${result.links.length || 0} links from ${url}`, {
+            stage: "extract-links",
+            source: url,
+            counts: { links: result.links.length || 0 },
+          });
           allResults.push(result as ScrapeResponse);
         } else {
-          console.error(`Error or no links in response for ${url}`);
+          logger.error(`Error or no links in response for ${url}`, {
+            stage: "extract-links",
+            source: url,
+          });
         }
       });
     } else {
-      console.error("Invalid batch scrape response format:", batchResponse);
+      logger.error("Invalid batch scrape response format:", {
+        stage: "extract-links",
+        error: JSON.stringify(batchResponse),
+      });
     }
 
-    console.log(`Successfully scraped ${allResults.length} pages`);
+    logger.info(`Successfully scraped ${allResults.length} pages`, {
+      stage: "extract-links",
+      counts: { pages: allResults.length },
+    });
 
     // Extract merchant links from all results
     let totalLinksFound = 0;
@@ -119,7 +139,7 @@ async function extractMerchantLinks(
     allResults.forEach((result, index) => {
       // Ensure result.links exists
       if (!result.links) {
-        console.warn(`No links found in result ${index + 1}`);
+        logger.warn(`No links found in result ${index + 1}`);
         return;
       }
 
@@ -128,7 +148,7 @@ async function extractMerchantLinks(
 
       // Get the original URL for this result
       const sourceURL = result.metadata?.sourceURL || `Page ${index + 1}`;
-      console.log(`Processing ${sourceURL}, found ${links.length} total links`);
+      logger.info(`Processing ${sourceURL}, found ${links.length} total links`);
 
       // Filter for merchant links
       const merchantLinks = links.filter(
@@ -137,8 +157,13 @@ async function extractMerchantLinks(
           link.match(/https?:\/\/www\.dontpayfull\.com\/at\/.+/)
       );
 
-      console.log(
-        `Extracted ${merchantLinks.length} merchant links from ${sourceURL}`
+      logger.info(
+        `Extracted ${merchantLinks.length} merchant links from ${sourceURL}`,
+        {
+          stage: "extract-links",
+          source: sourceURL,
+          counts: { links: links.length, merchantLinks: merchantLinks.length },
+        }
       );
       allMerchantLinks.push(...merchantLinks);
     });
@@ -167,24 +192,18 @@ async function extractMerchantLinks(
       };
     });
 
-    console.log(`\nFound ${allMerchantLinks.length} total merchant links`);
-    console.log(
+    logger.info(`\nFound ${allMerchantLinks.length} total merchant links`);
+    logger.info(
       `After deduplication: ${uniqueLinks.length} unique merchant links`
     );
-    console.log(
+    logger.info(
       `Scraped ${totalLinksFound} total links from ${allResults.length} sitemap pages`
     );
 
-    // Create output directory if it doesn't exist
-    const outputDir = "output";
-    await fs.ensureDir(outputDir);
-
-    // Define the single state file path
-    const filePrefix = testMode ? "test-" : "";
-    const stateFilePath = path.join(
-      outputDir,
-      `${filePrefix}scrape-state.json`
-    );
+    // Define the single state file path and create its directory if it
+    // doesn't exist
+    const stateFilePath = await resolveScrapeStatePath(paths);
+    await fs.ensureDir(path.dirname(stateFilePath));
 
     // Prepare the initial scrape state
     const initialState: ScrapeState = {
@@ -204,56 +223,59 @@ async function extractMerchantLinks(
     // Save the initial state to the JSON file
     await fs.writeJSON(stateFilePath, initialState, { spaces: 2 });
 
-    console.log(`\nInitial scrape state saved to: ${stateFilePath}`);
+    logger.info(`\nInitial scrape state saved to: ${stateFilePath}`, {
+      stage: "write",
+      file: stateFilePath,
+      counts: { merchantRecords: initialMerchantRecords.length },
+    });
 
-    console.timeEnd("Total execution time");
+    endTimer();
 
     return initialMerchantRecords; // Return the created records
   } catch (error) {
-    console.error("Error extracting merchant links:", error);
+    logger.error("Error extracting merchant links:", { error });
     throw error;
   }
 }
 
 /**
- * Main function
+ * Extracts the DontPayFull merchant links with the given command line
+ * arguments
  */
-async function main() {
-  try {
-    // Get command line arguments
-    const args = process.argv.slice(2);
-    const testMode = args.includes("--test");
+export async function runExtractLinks(args: string[]): Promise<void> {
+  const paths = parsePathArgs(args);
+  const { testMode } = paths;
 
-    if (testMode) {
-      console.log(
-        "Starting merchant link extractor in TEST MODE - processing only first 2 sitemap pages"
-      );
-      console.log("Remove --test flag to scrape all sitemap pages");
-    } else {
-      console.log(
-        "Starting merchant link extractor in FULL MODE - processing all sitemap pages"
-      );
-      console.log("Use --test flag to scrape only the first 2 sitemap pages");
-    }
-
-    const records = await extractMerchantLinks(testMode);
-    console.log(
-      `Successfully extracted ${records.length} initial merchant records`
+  if (testMode) {
+    logger.info(
+      "Starting merchant link extractor in TEST MODE - processing only first 2 sitemap pages"
+    );
+    logger.info("Remove --test flag to scrape all sitemap pages");
+  } else {
+    logger.info(
+      "Starting merchant link extractor in FULL MODE - processing all sitemap pages"
     );
+    logger.info("Use --test flag to scrape only the first 2 sitemap pages");
+  }
 
-    if (records.length > 0) {
-      console.log("\nSample of initial merchant records:");
-      records
-        .slice(0, 10)
-        .forEach((record) =>
-          console.log(`  - ${record.url} (${record.status})`)
-        );
-    }
-  } catch (error) {
-    console.error("Unhandled error in main:", error);
-    process.exit(1);
+  const records = await extractMerchantLinks(paths);
+  logger.info(
+    `Successfully extracted ${records.length} initial merchant records`
+  );
+
+  if (records.length > 0) {
+    logger.text("\nSample of initial merchant records:");
+    records
+      .slice(0, 10)
+      .forEach((record) => logger.text(`  - ${record.url} (${record.status})`));
   }
 }
 
-// Run the main function
-main();
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  configureLogger(parseLogArgs(args));
+  runExtractLinks(args).catch((err) => {
+    logger.error("Unhandled error in main:", { error: err });
+    process.exit(1);
+  });
+}
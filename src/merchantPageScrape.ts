@@ -1,8 +1,10 @@
 import fs from "fs-extra";
-import path from "path";
 import dotenv from "dotenv";
 import FirecrawlApp from "@mendable/firecrawl-js";
 import { JSDOM } from "jsdom";
+import { parsePathArgs } from "./cliOptions";
+import { configureLogger, logger, parseLogArgs } from "./logger";
+import { resolveScrapeStatePath } from "./projectConfig";
 
 // Load environment variables
 dotenv.config();
@@ -85,27 +87,29 @@ async function saveScrapeState(state: ScrapeState, filePath: string) {
 
   await fs.writeJSON(filePath, orderedState, { spaces: 2 });
 
-  // Log progress
-  console.log(`\nUpdated scrape state saved to ${filePath}:`);
-  console.log(
-    `  - Total completed: ${state.completedLinks}/${state.totalLinks} (${(
-      (state.completedLinks / state.totalLinks) *
-      100
-    ).toFixed(2)}%)`
-  );
-  console.log(
-    `  - Total failed: ${state.failedLinks}/${state.totalLinks} (${(
-      (state.failedLinks / state.totalLinks) *
-      100
-    ).toFixed(2)}%)`
-  );
-  console.log(
-    `  - Remaining pending: ${state.pendingLinks}/${state.totalLinks} (${(
-      (state.pendingLinks / state.totalLinks) *
-      100
-    ).toFixed(2)}%)`
+  // Log progress as a single event
+  const share = (count: number) =>
+    ((count / state.totalLinks) * 100).toFixed(2) + "%";
+  logger.info(
+    `Scrape state saved to ${filePath}: ` +
+      `${state.completedLinks}/${state.totalLinks} completed (${share(
+        state.completedLinks
+      )}), ` +
+      `${state.failedLinks} failed (${share(state.failedLinks)}), ` +
+      `${state.pendingLinks} pending (${share(state.pendingLinks)}), ` +
+      `${state.pagesWithAmazonDeals} with Amazon deals`,
+    {
+      stage: "scrape",
+      file: filePath,
+      counts: {
+        totalLinks: state.totalLinks,
+        completedLinks: state.completedLinks,
+        failedLinks: state.failedLinks,
+        pendingLinks: state.pendingLinks,
+        pagesWithAmazonDeals: state.pagesWithAmazonDeals,
+      },
+    }
   );
-  console.log(`  - Pages with Amazon deals: ${state.pagesWithAmazonDeals}`);
 }
 
 // Removed old function: updateMerchantLinkStatus
@@ -121,13 +125,16 @@ async function scrapeMerchantPages(
   scrapeState: ScrapeState,
   stateFilePath: string
 ) {
+  const progress = logger.progress("Scraping", recordsToProcess.length);
   try {
-    console.time("Total execution time for batch");
+    const endTimer = logger.time("Total execution time for batch", {
+      stage: "scrape",
+    });
 
     const app = new FirecrawlApp({ apiKey: process.env.FIRECRAWL_API_KEY });
-    console.log("Initialized FirecrawlApp with API key");
+    logger.info("Initialized FirecrawlApp with API key");
 
-    console.log(
+    logger.info(
       `Will scrape ${recordsToProcess.length} merchant pages${
         scrapeState.testMode ? " (TEST MODE)" : ""
       }`
@@ -145,15 +152,16 @@ async function scrapeMerchantPages(
       const batchRecords = recordsToProcess.slice(i, i + batchSize);
       const batchUrls = batchRecords.map((record) => record.url);
 
-      console.log(
+      logger.debug(
         `\nProcessing batch ${Math.floor(i / batchSize) + 1} of ${Math.ceil(
           recordsToProcess.length / batchSize
         )} (URLs ${i + 1} to ${Math.min(
           i + batchSize,
           recordsToProcess.length
-        )})`
+        )})`,
+        { stage: "scrape", counts: { batchUrls: batchUrls.length } }
       );
-      console.log(`Batch contains ${batchUrls.length} URLs`);
+      logger.debug(`Batch contains ${batchUrls.length} URLs`);
 
       const batchResults = new Map<
         string,
@@ -161,7 +169,7 @@ async function scrapeMerchantPages(
       >();
 
       try {
-        console.log("Starting batch scrape...");
+        logger.debug("Starting batch scrape...");
         const batchResponse = await app.batchScrapeUrls(batchUrls, {
           formats: ["html"],
         });
@@ -171,7 +179,7 @@ async function scrapeMerchantPages(
           batchResponse.success &&
           Array.isArray(batchResponse.data)
         ) {
-          console.log(
+          logger.debug(
             `Batch scrape completed. Received ${batchResponse.data.length} results.`
           );
 
@@ -185,7 +193,7 @@ async function scrapeMerchantPages(
           for (const url of batchUrls) {
             const record = recordMap.get(url);
             if (!record) {
-              console.warn(`Record not found in state for URL: ${url}`);
+              logger.warn(`Record not found in state for URL: ${url}`);
               continue;
             }
 
@@ -194,7 +202,10 @@ async function scrapeMerchantPages(
             record.lastAttempt = now;
 
             if (!result) {
-              console.error(`No scrape result found for URL: ${url}`);
+              logger.error(`No scrape result found for URL: ${url}`, {
+                stage: "scrape",
+                source: url,
+              });
               batchResults.set(url, {
                 success: false,
                 error: "No matching result found in batch response",
@@ -234,7 +245,11 @@ async function scrapeMerchantPages(
 
                 batchResults.set(url, { success: true });
               } catch (parseError) {
-                console.error(`Error parsing HTML for ${url}:`, parseError);
+                logger.error(`Error parsing HTML for ${url}:`, {
+                  stage: "scrape",
+                  source: url,
+                  error: parseError,
+                });
                 batchResults.set(url, {
                   success: false,
                   error: `HTML parsing error: ${
@@ -245,7 +260,10 @@ async function scrapeMerchantPages(
                 });
               }
             } else {
-              console.error(`Error or no HTML content in response for ${url}`);
+              logger.error(`Error or no HTML content in response for ${url}`, {
+                stage: "scrape",
+                source: url,
+              });
               batchResults.set(url, {
                 success: false,
                 error: "No HTML content in scrape result",
@@ -253,7 +271,10 @@ async function scrapeMerchantPages(
             }
           }
         } else {
-          console.error("Invalid batch scrape response format:", batchResponse);
+          logger.error("Invalid batch scrape response format:", {
+            stage: "scrape",
+            error: JSON.stringify(batchResponse),
+          });
           batchUrls.forEach((url) =>
             batchResults.set(url, {
               success: false,
@@ -262,7 +283,7 @@ async function scrapeMerchantPages(
           );
         }
       } catch (error) {
-        console.error("Error processing batch scrape:", error);
+        logger.error("Error processing batch scrape:", { error });
         batchUrls.forEach((url) =>
           batchResults.set(url, {
             success: false,
@@ -281,11 +302,11 @@ async function scrapeMerchantPages(
             record.attempts += 1;
             if (record.attempts >= 3) {
               record.status = "failed";
-              console.warn(
+              logger.warn(
                 `URL marked as failed after ${record.attempts} attempts: ${url} (Error: ${result.error})`
               );
             } else {
-              console.warn(
+              logger.warn(
                 `Attempt ${record.attempts} failed for ${url}: ${result.error}`
               );
             }
@@ -294,162 +315,180 @@ async function scrapeMerchantPages(
       });
 
       await saveScrapeState(scrapeState, stateFilePath);
+      progress.update(Math.min(i + batchSize, recordsToProcess.length));
 
       if (i + batchSize < recordsToProcess.length) {
-        console.log("Waiting for 2 seconds before processing next batch...");
+        logger.debug("Waiting for 2 seconds before processing next batch...");
         await new Promise((resolve) => setTimeout(resolve, 2000));
       }
     } // End of batch loop
 
-    console.log(`\nFinished processing all batches for this run.`);
-    console.log(
-      `Successfully scraped and processed data for ${processedCount} pages.`
+    logger.info(`\nFinished processing all batches for this run.`);
+    logger.info(
+      `Successfully scraped and processed data for ${processedCount} pages.`,
+      { stage: "scrape", counts: { processedPages: processedCount } }
     );
 
-    console.timeEnd("Total execution time for batch");
+    endTimer();
   } catch (error) {
-    console.error("Error scraping merchant pages:", error);
+    logger.error("Error scraping merchant pages:", { error });
     await saveScrapeState(scrapeState, stateFilePath);
     throw error;
+  } finally {
+    // Ends the progress line after the last batch or a failed one
+    progress.done();
   }
 }
 
 // Removed logic for saving separate merchant-page-data.json/csv files
 
 /**
- * Main function
+ * Scrapes the pending DontPayFull merchant pages of the scrape state with the
+ * given command line arguments
  */
-async function main() {
-  try {
-    const args = process.argv.slice(2);
-    const testMode = args.includes("--test");
-    const batchSizeArg = args.includes("--batch-size")
-      ? parseInt(args[args.indexOf("--batch-size") + 1])
-      : 2000;
-    const skipCompleted = !args.includes("--reprocess-completed");
-    const skipFailed = !args.includes("--retry-failed");
-    const maxAttempts = 3;
-    const outputDir = "output"; // Define outputDir here
-    await fs.ensureDir(outputDir); // Ensure output dir exists
-
-    console.log(
-      `Starting merchant page scraper using unified state file${
-        testMode ? " (TEST MODE)" : ""
-      }`
-    );
+export async function runScrapePages(args: string[]): Promise<void> {
+  const paths = parsePathArgs(args);
+  const { testMode } = paths;
+  const batchSizeArg = args.includes("--batch-size")
+    ? parseInt(args[args.indexOf("--batch-size") + 1])
+    : 2000;
+  const skipCompleted = !args.includes("--reprocess-completed");
+  const skipFailed = !args.includes("--retry-failed");
+  const maxAttempts = 3;
+  await fs.ensureDir(paths.outputDir); // Ensure output dir exists
+
+  logger.info(
+    `Starting merchant page scraper using unified state file${
+      testMode ? " (TEST MODE)" : ""
+    }`
+  );
+
+  const stateFilePath = await resolveScrapeStatePath(paths);
 
-    const filePrefix = testMode ? "test-" : "";
-    const stateFilePath = path.join(
-      outputDir,
-      `${filePrefix}scrape-state.json`
+  if (!fs.existsSync(stateFilePath)) {
+    throw new Error(
+      `State file not found at ${stateFilePath}, run "merchant-compare extract-links" first to generate it`
     );
+  }
 
-    if (!fs.existsSync(stateFilePath)) {
-      console.error(`Error: State file not found at ${stateFilePath}`);
-      console.log(
-        "Please run merchantLinkExtractor.ts first to generate the state file."
-      );
-      process.exit(1);
-    }
+  logger.info(`Loading scrape state from ${stateFilePath}...`);
+  const scrapeState = (await fs.readJSON(stateFilePath)) as ScrapeState;
 
-    console.log(`Loading scrape state from ${stateFilePath}...`);
-    const scrapeState = (await fs.readJSON(stateFilePath)) as ScrapeState;
+  if (
+    !scrapeState.merchantRecords ||
+    scrapeState.merchantRecords.length === 0
+  ) {
+    throw new Error(`No merchant records found in ${stateFilePath}`);
+  }
 
-    if (
-      !scrapeState.merchantRecords ||
-      scrapeState.merchantRecords.length === 0
-    ) {
-      console.error("No merchant records found in the state file.");
-      process.exit(1);
+  logger.info(
+    `Loaded state with ${scrapeState.totalLinks} total merchant records.`,
+    {
+      stage: "scrape",
+      file: stateFilePath,
+      counts: {
+        totalLinks: scrapeState.totalLinks,
+        pendingLinks: scrapeState.pendingLinks,
+        completedLinks: scrapeState.completedLinks,
+        failedLinks: scrapeState.failedLinks,
+      },
     }
+  );
+  logger.text(`  - Pending: ${scrapeState.pendingLinks}`);
+  logger.text(`  - Completed: ${scrapeState.completedLinks}`);
+  logger.text(`  - Failed: ${scrapeState.failedLinks}`);
 
-    console.log(
-      `Loaded state with ${scrapeState.totalLinks} total merchant records.`
-    );
-    console.log(`  - Pending: ${scrapeState.pendingLinks}`);
-    console.log(`  - Completed: ${scrapeState.completedLinks}`);
-    console.log(`  - Failed: ${scrapeState.failedLinks}`);
-
-    let recordsToProcess = scrapeState.merchantRecords.filter((record) => {
-      if (skipCompleted && record.status === "completed") return false;
-      if (
-        skipFailed &&
-        record.status === "failed" &&
-        record.attempts >= maxAttempts
-      )
-        return false;
-      if (record.status === "pending") return true;
-      if (!skipCompleted && record.status === "completed") return true;
-      if (
-        (!skipFailed || record.attempts < maxAttempts) &&
-        record.status === "failed"
-      )
-        return true;
+  let recordsToProcess = scrapeState.merchantRecords.filter((record) => {
+    if (skipCompleted && record.status === "completed") return false;
+    if (
+      skipFailed &&
+      record.status === "failed" &&
+      record.attempts >= maxAttempts
+    )
       return false;
-    });
-
-    recordsToProcess.sort((a, b) => {
-      const statusOrder = { pending: 0, failed: 1, completed: 2 };
-      const statusDiff = statusOrder[a.status] - statusOrder[b.status];
-      if (statusDiff !== 0) return statusDiff;
-      return a.attempts - b.attempts;
-    });
+    if (record.status === "pending") return true;
+    if (!skipCompleted && record.status === "completed") return true;
+    if (
+      (!skipFailed || record.attempts < maxAttempts) &&
+      record.status === "failed"
+    )
+      return true;
+    return false;
+  });
+
+  recordsToProcess.sort((a, b) => {
+    const statusOrder = { pending: 0, failed: 1, completed: 2 };
+    const statusDiff = statusOrder[a.status] - statusOrder[b.status];
+    if (statusDiff !== 0) return statusDiff;
+    return a.attempts - b.attempts;
+  });
+
+  logger.text(`\nFiltering complete:`);
+  logger.info(
+    `  - Found ${recordsToProcess.length} records requiring processing.`,
+    { stage: "scrape", counts: { records: recordsToProcess.length } }
+  );
+  if (!skipCompleted) logger.text(`    (Including reprocessing completed)`);
+  if (!skipFailed) logger.text(`    (Including retrying failed)`);
 
-    console.log(`\nFiltering complete:`);
-    console.log(
-      `  - Found ${recordsToProcess.length} records requiring processing.`
+  if (recordsToProcess.length > batchSizeArg) {
+    logger.info(
+      `Limiting processing to the first ${batchSizeArg} records for this run.`
     );
-    if (!skipCompleted) console.log(`    (Including reprocessing completed)`);
-    if (!skipFailed) console.log(`    (Including retrying failed)`);
+    recordsToProcess = recordsToProcess.slice(0, batchSizeArg);
+  }
 
-    if (recordsToProcess.length > batchSizeArg) {
-      console.log(
-        `Limiting processing to the first ${batchSizeArg} records for this run.`
+  logger.info(
+    `\nWill attempt to process ${recordsToProcess.length} records in this run.`,
+    { stage: "scrape", counts: { records: recordsToProcess.length } }
+  );
+  if (recordsToProcess.length > 0) {
+    const pendingCount = recordsToProcess.filter(
+      (r) => r.status === "pending"
+    ).length;
+    const completedCount = recordsToProcess.filter(
+      (r) => r.status === "completed"
+    ).length;
+    const failedCount = recordsToProcess.filter(
+      (r) => r.status === "failed"
+    ).length;
+    logger.info("Status breakdown of records to process:", {
+      stage: "scrape",
+      counts: {
+        pending: pendingCount,
+        completed: completedCount,
+        failed: failedCount,
+      },
+    });
+    logger.text(`  - Pending: ${pendingCount}`);
+    logger.text(`  - Completed (to be reprocessed): ${completedCount}`);
+    logger.text(`  - Failed (to be retried): ${failedCount}`);
+
+    logger.text("\nFirst 10 records to process:");
+    recordsToProcess.slice(0, 10).forEach((record, index) => {
+      logger.text(
+        `  ${index + 1}. ${record.url} (${record.status}, attempts: ${
+          record.attempts
+        })`
       );
-      recordsToProcess = recordsToProcess.slice(0, batchSizeArg);
-    }
-
-    console.log(
-      `\nWill attempt to process ${recordsToProcess.length} records in this run.`
+    });
+  } else {
+    logger.info(
+      "No records need processing based on current filters and status."
     );
-    if (recordsToProcess.length > 0) {
-      console.log("Status breakdown of records to process:");
-      const pendingCount = recordsToProcess.filter(
-        (r) => r.status === "pending"
-      ).length;
-      const completedCount = recordsToProcess.filter(
-        (r) => r.status === "completed"
-      ).length;
-      const failedCount = recordsToProcess.filter(
-        (r) => r.status === "failed"
-      ).length;
-      console.log(`  - Pending: ${pendingCount}`);
-      console.log(`  - Completed (to be reprocessed): ${completedCount}`);
-      console.log(`  - Failed (to be retried): ${failedCount}`);
-
-      console.log("\nFirst 10 records to process:");
-      recordsToProcess.slice(0, 10).forEach((record, index) => {
-        console.log(
-          `  ${index + 1}. ${record.url} (${record.status}, attempts: ${
-            record.attempts
-          })`
-        );
-      });
-    } else {
-      console.log(
-        "No records need processing based on current filters and status."
-      );
-      process.exit(0);
-    }
+    return;
+  }
 
-    await scrapeMerchantPages(recordsToProcess, scrapeState, stateFilePath);
+  await scrapeMerchantPages(recordsToProcess, scrapeState, stateFilePath);
 
-    console.log(`\nScraping run finished.`);
-  } catch (error) {
-    console.error("Unhandled error in main:", error);
-    process.exit(1);
-  }
+  logger.info(`\nScraping run finished.`);
 }
 
-// Run the main function
-main();
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  configureLogger(parseLogArgs(args));
+  runScrapePages(args).catch((err) => {
+    logger.error("Unhandled error in main:", { error: err });
+    process.exit(1);
+  });
+}
@@ -0,0 +1,97 @@
+import fs from "fs-extra";
+import { parseCsv } from "./csvReader";
+import { normalizeDomain } from "./domainNormalizer";
+import { logger } from "./logger";
+import { DomainNormalizationOptions, MerchantWeights } from "./types";
+
+export interface MerchantWeightOptions extends DomainNormalizationOptions {
+  column?: string; // Weight column; defaults to "weight", then the first non-domain column
+  defaultWeight?: number; // Weight of domains missing from the list (default 0)
+}
+
+/**
+ * Parses merchant weights from CSV content with a header row. Domains are
+ * read from the "domain" column (or the first column) and normalized like
+ * sitemap domains; weights of domains that normalize to the same domain are
+ * summed. Rows without a numeric weight are skipped.
+ */
+export function parseMerchantWeights(
+  content: string,
+  options: MerchantWeightOptions = {}
+): MerchantWeights {
+  const { header, rows } = parseCsv(content);
+
+  const domainIndex = Math.max(header.indexOf("domain"), 0);
+  const requestedColumn = (options.column || "weight").toLowerCase();
+  let weightIndex = header.indexOf(requestedColumn);
+  if (weightIndex === -1) {
+    if (options.column) {
+      throw new Error(
+        `Weight column "${
+          options.column
+        }" not found, expected one of: ${header.join(", ")}`
+      );
+    }
+    weightIndex = domainIndex === 0 ? 1 : 0;
+  }
+
+  const weights = new Map<string, number>();
+  let skippedRows = 0;
+  for (const fields of rows) {
+    const domain = normalizeDomain(fields[domainIndex] || "", options);
+    const rawWeight = fields[weightIndex] || "";
+    const weight = Number(rawWeight.replace(/,/g, ""));
+    if (!domain || rawWeight === "" || !isFinite(weight)) {
+      skippedRows++;
+      continue;
+    }
+    weights.set(domain, (weights.get(domain) || 0) + weight);
+  }
+
+  if (skippedRows > 0) {
+    logger.warn(
+      `Skipped ${skippedRows} merchant weight rows without a domain or numeric weight`
+    );
+  }
+
+  return { weights, defaultWeight: options.defaultWeight ?? 0 };
+}
+
+/**
+ * Loads merchant weights from a local CSV file keyed by domain
+ */
+export async function loadMerchantWeights(
+  filePath: string,
+  options: MerchantWeightOptions = {}
+): Promise<MerchantWeights> {
+  return parseMerchantWeights(await fs.readFile(filePath, "utf8"), options);
+}
+
+/**
+ * Reads the `--weights <file>`, `--weight-column <name>` and
+ * `--default-weight <n>` command line flags; returns null without --weights
+ */
+export function parseWeightArgs(
+  args: string[]
+): (MerchantWeightOptions & { filePath: string }) | null {
+  if (!args.includes("--weights")) return null;
+
+  const filePath = args[args.indexOf("--weights") + 1];
+  const column = args.includes("--weight-column")
+    ? args[args.indexOf("--weight-column") + 1]
+    : undefined;
+
+  let defaultWeight = 0;
+  if (args.includes("--default-weight")) {
+    const value = args[args.indexOf("--default-weight") + 1];
+    defaultWeight = Number(value);
+    if (!isFinite(defaultWeight)) {
+      logger.warn(
+        `Unknown --default-weight value "${value}", using 0 for unknown domains`
+      );
+      defaultWeight = 0;
+    }
+  }
+
+  return { filePath, column, defaultWeight };
+}
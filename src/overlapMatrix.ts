@@ -0,0 +1,101 @@
+import fs from "fs-extra";
+import path from "path";
+import { createObjectCsvWriter } from "csv-writer";
+import { OverlapMatrix } from "./types";
+
+/**
+ * Counts the domains two sets have in common, iterating the smaller set
+ */
+function countIntersection(a: Set<string>, b: Set<string>): number {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let count = 0;
+  for (const domain of smaller) {
+    if (larger.has(domain)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Builds an N×N matrix of domain overlap between every pair of sources,
+ * in the order of the source map
+ */
+export function buildOverlapMatrix(
+  sourceMap: Map<string, Set<string>>
+): OverlapMatrix {
+  const sources = [...sourceMap.keys()];
+  const domainSets = [...sourceMap.values()];
+  const counts = domainSets.map(() => new Array<number>(sources.length));
+
+  // The matrix is symmetric, so count each pair once
+  for (let row = 0; row < domainSets.length; row++) {
+    counts[row][row] = domainSets[row].size;
+    for (let column = row + 1; column < domainSets.length; column++) {
+      const count = countIntersection(domainSets[row], domainSets[column]);
+      counts[row][column] = count;
+      counts[column][row] = count;
+    }
+  }
+
+  const percentages = counts.map((rowCounts, row) =>
+    rowCounts.map((count) => {
+      // Avoid division by zero
+      const size = domainSets[row].size;
+      const percentage = size > 0 ? (count / size) * 100 : 0;
+      return Math.round(percentage * 100) / 100; // Round to 2 decimal places
+    })
+  );
+
+  return {
+    sources,
+    domainCounts: domainSets.map((domains) => domains.size),
+    counts,
+    percentages,
+  };
+}
+
+/**
+ * Writes the matrix to <outputDir>/overlap-matrix.json and a spreadsheet
+ * friendly <outputDir>/overlap-matrix.csv with one row per source, holding
+ * both the raw count and the percentage for every column source
+ */
+export async function writeOverlapMatrix(
+  matrix: OverlapMatrix,
+  outputDir: string
+): Promise<void> {
+  await fs.ensureDir(outputDir);
+  await fs.writeJSON(path.join(outputDir, "overlap-matrix.json"), matrix, {
+    spaces: 2,
+  });
+
+  const csvWriter = createObjectCsvWriter({
+    path: path.join(outputDir, "overlap-matrix.csv"),
+    header: [
+      { id: "source", title: "Source" },
+      { id: "domains", title: "Domains" },
+      ...matrix.sources.map((source, column) => ({
+        id: `count_${column}`,
+        title: source,
+      })),
+      ...matrix.sources.map((source, column) => ({
+        id: `percentage_${column}`,
+        title: `${source} %`,
+      })),
+    ],
+  });
+
+  await csvWriter.writeRecords(
+    matrix.sources.map((source, row) => {
+      const record: Record<string, string | number> = {
+        source,
+        domains: matrix.domainCounts[row],
+      };
+      matrix.sources.forEach((_, column) => {
+        record[`count_${column}`] = matrix.counts[row][column];
+        record[`percentage_${column}`] = matrix.percentages[row][column];
+      });
+      return record;
+    })
+  );
+}
@@ -0,0 +1,260 @@
+import Ajv from "ajv";
+import fs from "fs-extra";
+import path from "path";
+import { glob } from "glob";
+import {
+  CommandPaths,
+  DEFAULT_CONFIG_FILE,
+  dealspotrSource,
+  scrapeStatePath,
+} from "./cliOptions";
+import { withSourceRule } from "./extractionRules";
+import { excludeIndexChildren } from "./sitemapParser";
+import {
+  COMPETITORS_DIR,
+  DEALSPOTR_SOURCE,
+  baselineNaming,
+  findCompetitorSources,
+  parseBaselineArg,
+  selectBaseline,
+} from "./sources";
+import schema from "./projectConfig.schema.json";
+import { logger } from "./logger";
+import {
+  BaselineNaming,
+  ExtractionRule,
+  ProjectConfig,
+  ProjectSources,
+  SitemapSource,
+  SourceConfig,
+} from "./types";
+
+// Compiled once; reports every schema violation rather than only the first
+const validateSchema = new Ajv({ allErrors: true }).compile<ProjectConfig>(
+  schema
+);
+
+/**
+ * Returns the sources of a config that take part in a run
+ */
+function enabledSources(config: ProjectConfig): SourceConfig[] {
+  return config.sources.filter((source) => source.enabled !== false);
+}
+
+/**
+ * Lists the rule patterns that aren't valid regular expressions
+ */
+function invalidPatterns(rule: ExtractionRule): string[] {
+  return [...(rule.pathPatterns || []), ...(rule.rejectPatterns || [])]
+    .map((pathPattern) => pathPattern.pattern)
+    .filter((pattern) => {
+      try {
+        new RegExp(pattern);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+}
+
+/**
+ * Validates a parsed config against the schema and the rules the schema
+ * can't express: unique source names, exactly one enabled baseline, at most
+ * one enabled scraped source and valid extraction patterns. Throws an error
+ * listing every problem.
+ */
+export function validateProjectConfig(
+  value: unknown,
+  fileName: string = DEFAULT_CONFIG_FILE
+): ProjectConfig {
+  const problems: string[] = [];
+
+  if (!validateSchema(value)) {
+    for (const error of validateSchema.errors || []) {
+      problems.push(`${error.instancePath || "/"} ${error.message}`);
+    }
+  } else {
+    const config = value;
+    const seenNames = new Set<string>();
+    config.sources.forEach((source, index) => {
+      if (seenNames.has(source.name)) {
+        problems.push(`/sources/${index} repeats the name "${source.name}"`);
+      }
+      seenNames.add(source.name);
+      for (const pattern of invalidPatterns(source.extractionRules || {})) {
+        problems.push(
+          `/sources/${index}/extractionRules has an invalid pattern "${pattern}"`
+        );
+      }
+    });
+
+    const enabled = enabledSources(config);
+    const baselineCount = enabled.filter(
+      (source) => source.role === "baseline"
+    ).length;
+    if (baselineCount !== 1) {
+      problems.push(
+        `needs exactly one enabled baseline source, found ${baselineCount}`
+      );
+    }
+    if (enabled.filter((source) => source.role === "scraped").length > 1) {
+      problems.push("has more than one enabled scraped source");
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid ${fileName}:\n${problems
+        .map((problem) => `  - ${problem}`)
+        .join("\n")}`
+    );
+  }
+  return value as ProjectConfig;
+}
+
+/**
+ * Loads and validates the project config, or returns null when no --config
+ * was given and merchantcomparison.config.json doesn't exist
+ */
+export async function loadProjectConfig(
+  paths: CommandPaths
+): Promise<{ config: ProjectConfig; configDir: string } | null> {
+  const configFile = paths.configFile || DEFAULT_CONFIG_FILE;
+  if (!(await fs.pathExists(configFile))) {
+    if (paths.configFile) {
+      throw new Error(`Config file not found at ${configFile}`);
+    }
+    return null;
+  }
+
+  const config = validateProjectConfig(
+    await fs.readJSON(configFile),
+    configFile
+  );
+  return { config, configDir: path.dirname(configFile) };
+}
+
+/**
+ * Turns the enabled baseline and competitor sources of a config into sitemap
+ * sources, matching their globs relative to the config directory
+ */
+export async function resolveConfigSources(
+  config: ProjectConfig,
+  configDir: string
+): Promise<ProjectSources> {
+  const sitemapSources = enabledSources(config)
+    .filter((source) => source.role !== "scraped")
+    // Baseline first, the competitors in config order
+    .sort(
+      (a, b) => Number(b.role === "baseline") - Number(a.role === "baseline")
+    );
+
+  const sources: SitemapSource[] = [];
+  for (const source of sitemapSources) {
+    const files = new Set<string>();
+    for (const pattern of source.globs) {
+      for (const file of await glob(pattern, { cwd: configDir, nodir: true })) {
+        files.add(path.join(configDir, file));
+      }
+    }
+    if (files.size === 0) {
+      logger.warn(
+        `Source "${source.name}" matches no files: ${source.globs.join(", ")}`
+      );
+    }
+
+    sources.push({
+      name: source.name,
+      path: path.join(configDir, source.globs[0]),
+      isDirectory: false,
+      files: await excludeIndexChildren([...files].sort()),
+      rules: source.extractionRules
+        ? withSourceRule(source.extractionRules)
+        : undefined,
+    });
+  }
+
+  return { baselineName: sources[0].name, sources };
+}
+
+/**
+ * Resolves the baseline and competitor sources from the project config, or
+ * by the directory convention without one: DealsPotr against every
+ * competitor in the competitors directory
+ */
+export async function resolveSources(
+  paths: CommandPaths
+): Promise<ProjectSources> {
+  const loaded = await loadProjectConfig(paths);
+  if (loaded) {
+    const ignoredFlags = [
+      paths.dealspotrDir !== DEALSPOTR_SOURCE.path && "--dealspotr-dir",
+      paths.competitorsDir !== COMPETITORS_DIR && "--competitors-dir",
+    ].filter(Boolean);
+    if (ignoredFlags.length > 0) {
+      logger.warn(
+        `Ignoring ${ignoredFlags.join(" and ")}: the sources come from ${
+          paths.configFile || DEFAULT_CONFIG_FILE
+        }, edit their globs there instead`
+      );
+    }
+    return resolveConfigSources(loaded.config, loaded.configDir);
+  }
+
+  return {
+    baselineName: DEALSPOTR_SOURCE.name,
+    sources: [
+      dealspotrSource(paths),
+      ...(await findCompetitorSources(paths.competitorsDir)),
+    ],
+  };
+}
+
+/**
+ * Resolves the sources and splits them into the baseline and competitors:
+ * the config's baseline (DealsPotr by default) unless another source is
+ * picked with `--baseline <source>`. `--legacy-field-names` keeps the
+ * DealsPotr-specific field names in the saved results.
+ */
+export async function resolveBaselineSources(
+  args: string[],
+  paths: CommandPaths
+): Promise<{
+  baseline: SitemapSource;
+  competitors: SitemapSource[];
+  naming: BaselineNaming;
+}> {
+  const projectSources = await resolveSources(paths);
+  const { baseline, competitors } = selectBaseline(
+    projectSources.sources,
+    parseBaselineArg(args) || projectSources.baselineName
+  );
+  return {
+    baseline,
+    competitors,
+    naming: baselineNaming(
+      baseline.name,
+      args.includes("--legacy-field-names")
+    ),
+  };
+}
+
+/**
+ * Resolves the DontPayFull scrape state file: the first glob of the enabled
+ * scraped source in the project config, else output/scrape-state.json. Test
+ * mode uses the test- prefixed file next to it.
+ */
+export async function resolveScrapeStatePath(
+  paths: CommandPaths
+): Promise<string> {
+  const loaded = await loadProjectConfig(paths);
+  const scraped = loaded
+    ? enabledSources(loaded.config).find((source) => source.role === "scraped")
+    : undefined;
+  if (!loaded || !scraped) return scrapeStatePath(paths);
+
+  const file = path.join(loaded.configDir, scraped.globs[0]);
+  return paths.testMode
+    ? path.join(path.dirname(file), `test-${path.basename(file)}`)
+    : file;
+}
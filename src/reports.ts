@@ -0,0 +1,129 @@
+import fs from "fs-extra";
+import path from "path";
+import { writeAnalysisModel, writeOverlapResults } from "./analysisModel";
+import { writeCategoryOverlap } from "./categories";
+import { writeIgnoredUrlsCsv } from "./diagnostics";
+import { buildFreshnessReport, writeFreshnessReport } from "./freshness";
+import {
+  buildMerchantGaps,
+  findUniqueDomainsInBaseline,
+  writeMerchantGaps,
+  writeUniqueDomains,
+} from "./gapReport";
+import { buildIntersections, writeIntersections } from "./intersections";
+import { buildOverlapMatrix, writeOverlapMatrix } from "./overlapMatrix";
+import { firstUrlByDomain } from "./sitemapParser";
+import {
+  AnalysisReportPaths,
+  AnalysisReports,
+  AnalysisResult,
+  BaselineNaming,
+} from "./types";
+
+/**
+ * The domains of every source of an analysis, baseline first
+ */
+export function sourceDomainMap(
+  result: AnalysisResult
+): Map<string, Set<string>> {
+  return new Map([
+    [result.baselineName, result.baselineDomains],
+    ...result.competitorDomains,
+  ]);
+}
+
+/**
+ * Builds the reports drawn from an analysis: the overlap matrix and the
+ * intersections of every source, the merchant gaps in both directions and
+ * the catalog freshness of each competitor with page ages measured from asOf
+ */
+export function buildAnalysisReports(
+  result: AnalysisResult,
+  asOf: Date = new Date()
+): AnalysisReports {
+  const { baselineDomains, competitorDomains, model } = result;
+  const sourceMap = sourceDomainMap(result);
+
+  // The first URL each competitor lists a domain at, as a sample per gap
+  const competitorUrlMap = new Map(
+    [...competitorDomains.keys()].map((competitorName) => [
+      competitorName,
+      firstUrlByDomain(model.competitorUrls[competitorName] || []),
+    ])
+  );
+
+  return {
+    overlapMatrix: buildOverlapMatrix(sourceMap),
+    intersections: buildIntersections(sourceMap),
+    merchantGaps: buildMerchantGaps(
+      baselineDomains,
+      competitorDomains,
+      competitorUrlMap
+    ),
+    uniqueDomains: findUniqueDomainsInBaseline(
+      baselineDomains,
+      competitorDomains
+    ),
+    freshness: buildFreshnessReport(
+      result.competitorResults.map((competitor) => competitor.competitorName),
+      result.lastmods,
+      baselineDomains,
+      asOf
+    ),
+  };
+}
+
+/**
+ * Writes an analysis and its reports to outputDir: the ignored URLs per
+ * source, the analysis model, the overlap results under the baseline's field
+ * names, the category overlap when categories were given, and every report
+ */
+export async function writeAnalysisReports(
+  result: AnalysisResult,
+  reports: AnalysisReports,
+  naming: BaselineNaming,
+  outputDir: string
+): Promise<AnalysisReportPaths> {
+  await fs.ensureDir(outputDir);
+
+  for (const sourceDiagnostics of result.diagnostics.values()) {
+    await writeIgnoredUrlsCsv(sourceDiagnostics, outputDir);
+  }
+
+  const model = await writeAnalysisModel(result.model, outputDir);
+  const results = await writeOverlapResults(result.model, naming, outputDir);
+  const categoryOverlap = result.competitorResults.some(
+    (competitor) => competitor.categoryLevel !== undefined
+  )
+    ? await writeCategoryOverlap(result.competitorResults, outputDir)
+    : undefined;
+
+  await writeOverlapMatrix(reports.overlapMatrix, outputDir);
+  const intersections = await writeIntersections(
+    reports.intersections,
+    outputDir
+  );
+  await writeMerchantGaps(
+    reports.merchantGaps,
+    [...result.competitorDomains.keys()],
+    outputDir
+  );
+  const uniqueDomains = await writeUniqueDomains(
+    reports.uniqueDomains,
+    result.baselineName,
+    outputDir
+  );
+  await writeFreshnessReport(reports.freshness, outputDir);
+
+  return {
+    diagnosticsDir: path.join(outputDir, "diagnostics"),
+    model,
+    results,
+    ...(categoryOverlap && { categoryOverlap }),
+    overlapMatrix: path.join(outputDir, "overlap-matrix.json"),
+    intersections,
+    merchantGaps: path.join(outputDir, "merchant-gaps.json"),
+    uniqueDomains,
+    freshness: path.join(outputDir, "freshness.json"),
+  };
+}
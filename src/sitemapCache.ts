@@ -0,0 +1,226 @@
+import crypto from "crypto";
+import fs from "fs-extra";
+import path from "path";
+import { threadId } from "worker_threads";
+import { DEFAULT_EXTRACTION_RULES } from "./extractionRules";
+import { logger } from "./logger";
+import {
+  CachedDomainExtraction,
+  CachedSitemapUrls,
+  CacheStats,
+  DomainExtractionOptions,
+  SitemapCacheOptions,
+} from "./types";
+
+export const DEFAULT_CACHE_DIR = path.join("output", ".cache");
+
+// Bump whenever the layout of a cache entry changes
+const CACHE_FORMAT_VERSION = 4;
+
+const DEFAULT_RULES_JSON = JSON.stringify(DEFAULT_EXTRACTION_RULES);
+
+interface CachedFileHash {
+  filePath: string;
+  hash: string;
+}
+
+/**
+ * What is stored on disk: the cached data plus the content hashes of every
+ * child sitemap merged into it, since the parent's own hash doesn't cover them
+ */
+interface CacheEntry<T> {
+  formatVersion: number;
+  childSitemaps: CachedFileHash[];
+  data: T;
+}
+
+// Lookups made by this process; worker threads report theirs through results
+const cacheStats: CacheStats = { hits: 0, misses: 0 };
+
+/**
+ * Returns false when a run opted out of the cache with --no-cache
+ */
+export function isCacheEnabled(options: SitemapCacheOptions = {}): boolean {
+  return options.cache !== false;
+}
+
+/**
+ * Hashes the raw bytes of a file (compressed files are hashed as stored)
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Key of the extraction settings that change which domains a file yields
+ */
+function extractionKey(options: DomainExtractionOptions): string {
+  const rules = options.rules || DEFAULT_EXTRACTION_RULES;
+  // Rules tuned per source in the project config keep the default version,
+  // so they are told apart by their content
+  const serializedRules = JSON.stringify(rules);
+  const rulesHash =
+    serializedRules === DEFAULT_RULES_JSON
+      ? ""
+      : `-${crypto
+          .createHash("sha256")
+          .update(serializedRules)
+          .digest("hex")
+          .slice(0, 12)}`;
+  // "-registrable2": registrable domains now keep shared-host stores apart
+  return `rules-v${rules.version}${rulesHash}${
+    options.registrableDomain ? "-registrable2" : ""
+  }`;
+}
+
+function cachePath(options: SitemapCacheOptions, fileName: string): string {
+  return path.join(options.cacheDir || DEFAULT_CACHE_DIR, fileName);
+}
+
+/**
+ * Reads a cache entry, treating unreadable, outdated or stale entries
+ * (a merged child sitemap changed) as misses
+ */
+async function readEntry<T>(entryPath: string): Promise<T | null> {
+  try {
+    const entry: CacheEntry<T> = await fs.readJson(entryPath);
+    if (entry.formatVersion !== CACHE_FORMAT_VERSION) return null;
+
+    for (const child of entry.childSitemaps) {
+      if (
+        !(await fs.pathExists(child.filePath)) ||
+        (await hashFile(child.filePath)) !== child.hash
+      ) {
+        return null;
+      }
+    }
+
+    return entry.data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes a cache entry through a temporary file so concurrent workers caching
+ * identical content never leave a half-written entry behind
+ */
+async function writeEntry<T>(
+  entryPath: string,
+  data: T,
+  childSitemaps: string[]
+): Promise<void> {
+  const tempPath = `${entryPath}.${process.pid}-${threadId}.tmp`;
+  try {
+    const entry: CacheEntry<T> = {
+      formatVersion: CACHE_FORMAT_VERSION,
+      childSitemaps: await Promise.all(
+        childSitemaps.map(async (filePath) => ({
+          filePath,
+          hash: await hashFile(filePath),
+        }))
+      ),
+      data,
+    };
+    await fs.outputJson(tempPath, entry);
+    await fs.move(tempPath, entryPath, { overwrite: true });
+  } catch (error) {
+    // The cache is an optimization; a failed write only costs a re-parse
+    logger.warn(`Could not write cache entry ${entryPath}:`, { error });
+    await fs.remove(tempPath).catch(() => {});
+  }
+}
+
+/**
+ * Looks up the parsed URLs of a sitemap by its content hash
+ */
+export function readCachedSitemapUrls(
+  hash: string,
+  options: SitemapCacheOptions = {}
+): Promise<CachedSitemapUrls | null> {
+  return readEntry(cachePath(options, `${hash}.urls.json`));
+}
+
+/**
+ * Stores the parsed URLs of a sitemap under its content hash
+ */
+export function writeCachedSitemapUrls(
+  hash: string,
+  sitemap: CachedSitemapUrls,
+  options: SitemapCacheOptions = {}
+): Promise<void> {
+  return writeEntry(
+    cachePath(options, `${hash}.urls.json`),
+    sitemap,
+    sitemap.childSitemaps
+  );
+}
+
+/**
+ * Looks up the domains extracted from a sitemap by its content hash and the
+ * extraction rule version
+ */
+export function readCachedExtraction(
+  hash: string,
+  options: SitemapCacheOptions & DomainExtractionOptions = {}
+): Promise<CachedDomainExtraction | null> {
+  return readEntry(
+    cachePath(options, `${hash}.${extractionKey(options)}.json`)
+  );
+}
+
+/**
+ * Stores the domains extracted from a sitemap under its content hash and the
+ * extraction rule version
+ */
+export function writeCachedExtraction(
+  hash: string,
+  extraction: CachedDomainExtraction,
+  options: SitemapCacheOptions & DomainExtractionOptions = {}
+): Promise<void> {
+  return writeEntry(
+    cachePath(options, `${hash}.${extractionKey(options)}.json`),
+    extraction,
+    extraction.childSitemaps
+  );
+}
+
+/**
+ * Counts a cache lookup towards this run's statistics
+ */
+export function recordCacheLookup(hit: boolean): void {
+  if (hit) {
+    cacheStats.hits++;
+  } else {
+    cacheStats.misses++;
+  }
+}
+
+/**
+ * Returns the cache lookups counted so far in this run
+ */
+export function getCacheStats(): CacheStats {
+  return { ...cacheStats };
+}
+
+/**
+ * Formats this run's cache statistics as a single log line
+ */
+export function formatCacheStats(options: SitemapCacheOptions = {}): string {
+  if (!isCacheEnabled(options)) {
+    return "Sitemap cache: disabled (--no-cache)";
+  }
+
+  const lookups = cacheStats.hits + cacheStats.misses;
+  const hitRate = lookups > 0 ? (cacheStats.hits / lookups) * 100 : 0;
+  return (
+    `Sitemap cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses ` +
+    `(${hitRate.toFixed(2)}% hit rate) in ${
+      options.cacheDir || DEFAULT_CACHE_DIR
+    }`
+  );
+}
@@ -1,199 +1,493 @@
 import fs from "fs-extra";
 import path from "path";
+import zlib from "zlib";
+import { pipeline, Readable } from "stream";
 import { glob } from "glob";
-import { xml2js } from "xml-js";
-import { Domain, ParsedSitemap, SitemapUrl } from "./types";
+import { streamSitemapDocument } from "./sitemapStream";
+import { normalizeDomain } from "./domainNormalizer";
+import {
+  createSourceDiagnostics,
+  recordExtraction,
+  recordFileResult,
+} from "./diagnostics";
+import { resolveConcurrency, runWorkerPool } from "./workerPool";
+import { logger } from "./logger";
+import {
+  hashFile,
+  isCacheEnabled,
+  readCachedExtraction,
+  readCachedSitemapUrls,
+  recordCacheLookup,
+  writeCachedExtraction,
+  writeCachedSitemapUrls,
+} from "./sitemapCache";
+import {
+  DEFAULT_EXTRACTION_RULES,
+  compilePattern,
+  resolveExtractionRule,
+} from "./extractionRules";
+import {
+  CachedSitemapUrls,
+  Domain,
+  DomainExtraction,
+  DomainExtractionOptions,
+  IgnoreReason,
+  ParsedSitemap,
+  PathPattern,
+  SitemapParseOptions,
+  SitemapFileResult,
+  SitemapFileTask,
+  SitemapProcessingOptions,
+  SitemapUrl,
+  SourceDiagnostics,
+  UrlDomainPair,
+} from "./types";
+
+// First two bytes of every gzip stream
+const GZIP_MAGIC_BYTES = [0x1f, 0x8b];
 
 /**
- * Extracts the domain from a URL
+ * Returns true if a file name looks like a sitemap (.xml or .xml.gz)
  */
-export function extractDomain(url: string): Domain | null {
+export function isSitemapFile(fileName: string): boolean {
+  return (
+    !path.basename(fileName).startsWith(".") &&
+    (fileName.endsWith(".xml") || fileName.endsWith(".xml.gz"))
+  );
+}
+
+/**
+ * Returns the file name of a sitemap without its .xml or .xml.gz extension
+ */
+export function sitemapBaseName(filePath: string): string {
+  return path.basename(filePath).replace(/\.xml(\.gz)?$/, "");
+}
+
+/**
+ * Opens a sitemap file as a text stream, transparently decompressing gzip content.
+ * Compression is detected from the gzip magic bytes, so misnamed files work too.
+ */
+export async function openSitemapStream(filePath: string): Promise<Readable> {
+  const header = Buffer.alloc(GZIP_MAGIC_BYTES.length);
+  const handle = await fs.promises.open(filePath, "r");
+  let bytesRead: number;
   try {
-    const urlObj = new URL(url);
-
-    // Special case handling for capitaloneshopping.com - ignore 'all' and other non-domain segments
-    if (urlObj.hostname.includes("capitaloneshopping.com")) {
-      const pathParts = urlObj.pathname.split("/").filter((part) => part);
-      if (pathParts.length > 1 && pathParts[0] === "s") {
-        // Skip non-domain segments like 'all' or segments without dots
-        if (pathParts[1] === "all" || !pathParts[1].includes(".")) {
-          return null;
-        }
-
-        // If it has a dot, it's likely a domain
-        if (pathParts[1].includes(".")) {
-          return {
-            full: pathParts[1],
-            name: pathParts[1],
-          };
-        }
-      }
-    }
+    ({ bytesRead } = await handle.read(header, 0, header.length, 0));
+  } finally {
+    await handle.close();
+  }
+
+  const isGzipped =
+    bytesRead === GZIP_MAGIC_BYTES.length &&
+    header[0] === GZIP_MAGIC_BYTES[0] &&
+    header[1] === GZIP_MAGIC_BYTES[1];
 
-    // Common pattern: look for domain-like strings in the path
-    const pathParts = urlObj.pathname.split("/").filter((part) => part);
+  if (!isGzipped && filePath.endsWith(".gz")) {
+    logger.warn(`${filePath} is not gzip-compressed, reading as plain text`, {
+      file: filePath,
+    });
+  }
+
+  const fileStream = fs.createReadStream(filePath);
+  const stream = isGzipped
+    ? pipeline(fileStream, zlib.createGunzip(), () => {})
+    : fileStream;
+  stream.setEncoding("utf8");
+  return stream;
+}
 
-    // First priority: Find domain-like strings in the path segments
-    // Match anything that looks like a domain with any TLD
-    const domainRegex =
-      /^[a-zA-Z0-9][-a-zA-Z0-9]*(\.[a-zA-Z0-9][-a-zA-Z0-9]*)+$/;
+// Matches path segments that look like a domain with any TLD
+const DOMAIN_SEGMENT_REGEX =
+  /^[a-zA-Z0-9][-a-zA-Z0-9]*(\.[a-zA-Z0-9][-a-zA-Z0-9]*)+$/;
 
+/**
+ * Matches a path pattern against a URL path. Returns undefined when the
+ * pattern doesn't match, the reason when the captured segment isn't a
+ * merchant domain, and the captured domain otherwise.
+ */
+function matchPathPattern(
+  pathPattern: PathPattern,
+  normalizedPath: string
+): { segment: string } | { reason: IgnoreReason } | undefined {
+  const match = compilePattern(pathPattern.pattern).exec(normalizedPath);
+  if (!match || match[1] === undefined) return undefined;
+
+  const segment = match[1];
+  if (pathPattern.rejectSegments?.includes(segment)) {
+    return { reason: "rejected_segment" };
+  }
+  if (pathPattern.requireDot !== false && !segment.includes(".")) {
+    return { reason: "non_domain_segment" };
+  }
+
+  return { segment };
+}
+
+/**
+ * Pairs a raw domain with its canonical form
+ */
+function toDomainExtraction(
+  rawDomain: string,
+  options: DomainExtractionOptions
+): DomainExtraction {
+  const name = normalizeDomain(rawDomain, options);
+  return name
+    ? { domain: { full: rawDomain, name } }
+    : { domain: null, reason: "empty_domain" };
+}
+
+/**
+ * Extracts the domain from a URL using the declarative extraction rules and
+ * reports why the URL was ignored when no merchant domain was found
+ */
+export function extractDomainWithReason(
+  url: string,
+  options: DomainExtractionOptions = {}
+): DomainExtraction {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch (error) {
+    logger.error(`Error extracting domain from ${url}:`, { error });
+    return { domain: null, reason: "invalid_url" };
+  }
+
+  const rule = resolveExtractionRule(
+    urlObj.hostname,
+    options.rules || DEFAULT_EXTRACTION_RULES
+  );
+  const pathParts = urlObj.pathname.split("/").filter((part) => part);
+  const normalizedPath = `/${pathParts.join("/")}`;
+
+  // First priority: source-specific patterns decide the result when they match
+  for (const pathPattern of rule.pathPatterns || []) {
+    const match = matchPathPattern(pathPattern, normalizedPath);
+    if (match && "reason" in match) {
+      return { domain: null, reason: match.reason };
+    }
+    if (match) {
+      return toDomainExtraction(match.segment, options);
+    }
+  }
+
+  // Second priority: find domain-like strings in the path segments
+  if (rule.matchDomainSegments !== false) {
     for (const part of pathParts) {
-      if (domainRegex.test(part)) {
-        return {
-          full: part,
-          name: part,
-        };
+      if (DOMAIN_SEGMENT_REGEX.test(part)) {
+        return toDomainExtraction(part, options);
       }
     }
+  }
+
+  // Third priority: take what comes after a known segment like /store/
+  const knownSegments = rule.knownSegments || [];
+  for (let i = 0; i < pathParts.length - 1; i++) {
+    if (knownSegments.includes(pathParts[i])) {
+      // The domain is likely the next segment after a known segment
+      const potentialDomain = pathParts[i + 1];
 
-    // Second priority: For dealspotr-like patterns, take what comes after a specific segment
-    const knownSegments = [
-      "promo-codes",
-      "store",
-      "coupons",
-      "site",
-      "coupon-codes",
-      "s",
-      "view",
-    ];
-
-    for (let i = 0; i < pathParts.length - 1; i++) {
-      if (knownSegments.includes(pathParts[i])) {
-        // The domain is likely the next segment after a known segment
-        const potentialDomain = pathParts[i + 1];
-
-        // For all sites, require a dot in the potential domain
-        if (potentialDomain && potentialDomain.includes(".")) {
-          return {
-            full: potentialDomain,
-            name: potentialDomain,
-          };
-        }
+      // For all sites, require a dot in the potential domain
+      if (potentialDomain && potentialDomain.includes(".")) {
+        return toDomainExtraction(potentialDomain, options);
       }
     }
+  }
 
-    // Special case for GoodSearch - if after 'coupons/' there's no dot, skip it
-    if (urlObj.hostname.includes("goodsearch.com") && pathParts.length > 1) {
-      const couponsIndex = pathParts.findIndex((part) => part === "coupons");
-      if (couponsIndex >= 0 && couponsIndex + 1 < pathParts.length) {
-        const afterCoupons = pathParts[couponsIndex + 1];
-        if (!afterCoupons.includes(".")) {
-          // This is not a domain, don't return the hostname
-          return null;
-        }
-      }
+  // Source-specific patterns for pages that are known not to be merchants
+  for (const pathPattern of rule.rejectPatterns || []) {
+    const match = matchPathPattern(pathPattern, normalizedPath);
+    if (match && "reason" in match) {
+      return { domain: null, reason: "non_merchant_page" };
     }
+    if (match) {
+      return toDomainExtraction(match.segment, options);
+    }
+  }
 
-    // Last resort: use the hostname itself if it contains a dot AND the URL has no path
-    // This avoids returning the site's own hostname when we should return null
+  // Last resort: use the hostname itself if the URL has no path
+  // This avoids returning the site's own hostname when we should return null
+  if (pathParts.length === 0) {
     const hostname = urlObj.hostname;
-    if (hostname.includes(".") && pathParts.length === 0) {
-      return {
-        full: hostname,
-        name: hostname.replace(/^www\./, ""),
-      };
+    if (rule.hostnameFallback !== false && hostname.includes(".")) {
+      return toDomainExtraction(hostname, options);
     }
+    return { domain: null, reason: "no_hostname_fallback" };
+  }
 
-    // If no valid domain found, return null
-    return null;
-  } catch (error) {
-    console.error(`Error extracting domain from ${url}:`, error);
-    return null;
+  // If no valid domain found, return null
+  return { domain: null, reason: "no_domain_segment" };
+}
+
+/**
+ * Extracts the domain from a URL using the declarative extraction rules.
+ * `full` is the raw domain from the URL, `name` its canonical form.
+ */
+export function extractDomain(
+  url: string,
+  options: DomainExtractionOptions = {}
+): Domain | null {
+  return extractDomainWithReason(url, options).domain;
+}
+
+/**
+ * Resolves a child sitemap URL from a sitemap index to a local file.
+ * Checks the explicit mapping first, then looks for a file with the same name
+ * next to the index file or in a directory named after the index file.
+ */
+async function resolveChildSitemap(
+  childUrl: string,
+  indexFilePath: string,
+  rootFilePath: string,
+  options: SitemapParseOptions
+): Promise<string | null> {
+  const mapped = options.childSitemapMap?.[childUrl];
+  if (mapped) {
+    return (await fs.pathExists(mapped)) ? mapped : null;
+  }
+
+  let fileName: string;
+  try {
+    fileName = path.basename(new URL(childUrl).pathname);
+  } catch {
+    fileName = path.basename(childUrl);
+  }
+  if (!fileName) return null;
+
+  // Accept a local copy stored either compressed or uncompressed
+  const fileNames = fileName.endsWith(".gz")
+    ? [fileName, fileName.replace(/\.gz$/, "")]
+    : [fileName, `${fileName}.gz`];
+
+  // Look next to the index itself and next to the top-level index that owns it
+  const candidates: string[] = [];
+  for (const ownerPath of [indexFilePath, rootFilePath]) {
+    const ownerDir = path.dirname(ownerPath);
+    for (const name of fileNames) {
+      candidates.push(
+        path.join(ownerDir, name),
+        path.join(ownerDir, sitemapBaseName(ownerPath), name)
+      );
+    }
   }
+
+  for (const candidate of candidates) {
+    if (await fs.pathExists(candidate)) {
+      return candidate;
+    }
+  }
+
+  return null;
 }
 
 /**
- * Parses an XML sitemap file and extracts URLs
+ * Streams the URLs of a sitemap file, following <sitemapindex> entries into
+ * local child files. Resolved child files are appended to childSitemaps.
  */
-export async function parseSitemapFile(
+async function* streamSitemapRecursive(
   filePath: string,
-  sourceName: string
-): Promise<ParsedSitemap> {
-  try {
-    const content = await fs.readFile(filePath, "utf-8");
-    const result = xml2js(content, { compact: true }) as any;
-
-    // Handle different sitemap formats
-    let urls: SitemapUrl[] = [];
-
-    // Standard urlset format (most common)
-    if (result.urlset && result.urlset.url) {
-      const urlEntries = Array.isArray(result.urlset.url)
-        ? result.urlset.url
-        : [result.urlset.url];
-
-      urls = urlEntries
-        .map((entry: any) => ({
-          loc: entry.loc?._text || "",
-          lastmod: entry.lastmod?._text,
-          changefreq: entry.changefreq?._text,
-          priority: entry.priority?._text,
-        }))
-        .filter((url: SitemapUrl) => url.loc);
+  rootFilePath: string,
+  options: SitemapParseOptions,
+  visited: Set<string>,
+  childSitemaps: string[]
+): AsyncGenerator<SitemapUrl> {
+  visited.add(path.resolve(filePath));
+
+  // Child sitemap locations are few, so collect them and recurse afterwards
+  const childUrls: string[] = [];
+  const input = await openSitemapStream(filePath);
+  for await (const entry of streamSitemapDocument(input)) {
+    if (entry.type === "url") {
+      yield entry.url;
+    } else {
+      childUrls.push(entry.loc);
     }
-    // Non-standard format with different root element
-    else if (result.xml && result.xml.url) {
-      const urlEntries = Array.isArray(result.xml.url)
-        ? result.xml.url
-        : [result.xml.url];
-
-      urls = urlEntries
-        .map((entry: any) => ({
-          loc: entry.loc?._text || "",
-          lastmod: entry.lastmod?._text,
-          changefreq: entry.changefreq?._text,
-          priority: entry.priority?._text,
-        }))
-        .filter((url: SitemapUrl) => url.loc);
+  }
+
+  // Sitemap index: merge the URLs of every child sitemap we have locally
+  for (const childUrl of childUrls) {
+    const childPath = await resolveChildSitemap(
+      childUrl,
+      filePath,
+      rootFilePath,
+      options
+    );
+    if (!childPath) {
+      logger.warn(
+        `No local file found for child sitemap ${childUrl} in ${filePath}`,
+        { file: filePath }
+      );
+      continue;
     }
-    // Try to find any URLs in the document regardless of structure
-    else {
-      const findUrls = (obj: any, urls: SitemapUrl[] = []): SitemapUrl[] => {
-        if (!obj) return urls;
-
-        if (obj.loc && obj.loc._text) {
-          urls.push({
-            loc: obj.loc._text,
-            lastmod: obj.lastmod?._text,
-            changefreq: obj.changefreq?._text,
-            priority: obj.priority?._text,
-          });
-        }
-
-        // Recursively search in child objects
-        for (const key in obj) {
-          if (typeof obj[key] === "object") {
-            findUrls(obj[key], urls);
-          }
-        }
-
-        return urls;
-      };
-
-      urls = findUrls(result);
-
-      // If still no URLs, try to extract any text that looks like a URL
-      if (urls.length === 0) {
-        const urlRegex = /(https?:\/\/[^\s<>"']+)/g;
-        const matches = content.match(urlRegex);
-
-        if (matches) {
-          urls = matches.map((url: string) => ({ loc: url }));
-        }
+
+    // Guard against index files that reference each other
+    if (visited.has(path.resolve(childPath))) {
+      logger.warn(`Skipping already visited sitemap ${childPath}`, {
+        file: childPath,
+      });
+      continue;
+    }
+
+    childSitemaps.push(childPath);
+    yield* streamSitemapRecursive(
+      childPath,
+      rootFilePath,
+      options,
+      visited,
+      childSitemaps
+    );
+  }
+}
+
+/**
+ * Returns the local child sitemaps a sitemap index references, following
+ * nested indexes; empty for a urlset. Reading a file stops at its first URL.
+ */
+export async function findChildSitemaps(
+  filePath: string,
+  options: SitemapParseOptions = {}
+): Promise<string[]> {
+  const childSitemaps: string[] = [];
+  const visited = new Set<string>();
+
+  const collect = async (indexFilePath: string) => {
+    visited.add(path.resolve(indexFilePath));
+    const childUrls: string[] = [];
+    const input = await openSitemapStream(indexFilePath);
+    for await (const entry of streamSitemapDocument(input)) {
+      if (entry.type === "url") break;
+      childUrls.push(entry.loc);
+    }
+
+    for (const childUrl of childUrls) {
+      const childPath = await resolveChildSitemap(
+        childUrl,
+        indexFilePath,
+        filePath,
+        options
+      );
+      if (childPath && !visited.has(path.resolve(childPath))) {
+        childSitemaps.push(childPath);
+        await collect(childPath);
       }
     }
+  };
+
+  await collect(filePath);
+  return childSitemaps;
+}
+
+/**
+ * Drops the files a sitemap index among them references: the index already
+ * merges their URLs, so reading them on their own would count each URL
+ * twice. A file that fails to parse references nothing.
+ */
+export async function excludeIndexChildren(
+  files: string[],
+  options: SitemapParseOptions = {}
+): Promise<string[]> {
+  const childSitemaps = new Map<string, string[]>();
+  for (const file of files) {
+    childSitemaps.set(
+      path.resolve(file),
+      (await findChildSitemaps(file, options).catch(() => [])).map((child) =>
+        path.resolve(child)
+      )
+    );
+  }
+
+  // Files of an index cycle reference each other; those are all kept
+  return files.filter((file) => {
+    const resolved = path.resolve(file);
+    return ![...childSitemaps.entries()].some(
+      ([index, children]) =>
+        index !== resolved &&
+        children.includes(resolved) &&
+        !childSitemaps.get(resolved)!.includes(index)
+    );
+  });
+}
+
+/**
+ * Streams the URLs of a sitemap file one at a time with bounded memory.
+ * Sitemap index files are resolved recursively against local files.
+ */
+export function streamSitemapUrls(
+  filePath: string,
+  options: SitemapParseOptions = {},
+  childSitemaps: string[] = []
+): AsyncGenerator<SitemapUrl> {
+  return streamSitemapRecursive(
+    filePath,
+    filePath,
+    options,
+    new Set<string>(),
+    childSitemaps
+  );
+}
+
+/**
+ * Reads the URLs of a sitemap file from the cache when a content hash is
+ * given, otherwise (or on a miss) parses the file and caches the result.
+ * Throws if the file can't be parsed.
+ */
+async function loadSitemapUrls(
+  filePath: string,
+  options: SitemapParseOptions,
+  hash: string | null
+): Promise<CachedSitemapUrls & { cacheHit: boolean }> {
+  const cached = hash ? await readCachedSitemapUrls(hash, options) : null;
+  if (cached) {
+    return { ...cached, cacheHit: true };
+  }
+
+  const urls: SitemapUrl[] = [];
+  const childSitemaps: string[] = [];
+  for await (const url of streamSitemapUrls(filePath, options, childSitemaps)) {
+    urls.push(url);
+  }
+
+  if (hash) {
+    await writeCachedSitemapUrls(hash, { urls, childSitemaps }, options);
+  }
+  return { urls, childSitemaps, cacheHit: false };
+}
+
+/**
+ * Parses an XML sitemap file and extracts URLs.
+ * Sitemap index files are resolved recursively against local files and the
+ * merged URLs are attributed to the given source. Unchanged files are read
+ * from the on-disk cache unless options.cache is false.
+ */
+export async function parseSitemapFile(
+  filePath: string,
+  sourceName: string,
+  options: SitemapParseOptions = {}
+): Promise<ParsedSitemap> {
+  try {
+    const hash = isCacheEnabled(options) ? await hashFile(filePath) : null;
+    const { urls, childSitemaps, cacheHit } = await loadSitemapUrls(
+      filePath,
+      options,
+      hash
+    );
+    if (hash) {
+      recordCacheLookup(cacheHit);
+    }
 
     if (urls.length === 0) {
-      console.warn(`No URLs found in ${filePath}`);
+      logger.warn(`No URLs found in ${filePath}`, { file: filePath });
     }
 
     return {
       sourceName,
       urls,
+      ...(childSitemaps.length > 0 && { childSitemaps }),
     };
   } catch (error) {
-    console.error(`Error parsing sitemap ${filePath}:`, error);
+    logger.error(`Error parsing sitemap ${filePath}:`, {
+      file: filePath,
+      error,
+    });
     return {
       sourceName,
       urls: [],
@@ -202,26 +496,56 @@ export async function parseSitemapFile(
 }
 
 /**
- * Finds all sitemap files in a directory recursively
+ * Finds all sitemap files (.xml and .xml.gz) in a directory recursively
  */
 export async function findSitemapFiles(directory: string): Promise<string[]> {
   try {
-    return await glob(`${directory}/**/*.xml`);
+    return await glob(`${directory}/**/*.{xml,xml.gz}`);
   } catch (error) {
-    console.error(`Error finding sitemap files in ${directory}:`, error);
+    logger.error(`Error finding sitemap files in ${directory}:`, { error });
     return [];
   }
 }
 
+// Number of ignored URLs echoed to the console per sitemap
+const IGNORED_URL_SAMPLE_SIZE = 5;
+
+/**
+ * Logs how many URLs were ignored in a sitemap, with a small sample
+ */
+function logIgnoredUrls(
+  sourceName: string,
+  ignoredCount: number,
+  sample: string[]
+): void {
+  if (ignoredCount === 0) return;
+
+  logger.info(
+    `Ignored ${ignoredCount} URLs without a proper domain in ${sourceName}`,
+    {
+      stage: "extract",
+      source: sourceName,
+      counts: { ignoredUrls: ignoredCount },
+    }
+  );
+  sample.forEach((url) => logger.text(`  - ${url}`));
+  if (ignoredCount > sample.length) {
+    logger.text(`  ... and ${ignoredCount - sample.length} more`);
+  }
+}
+
 /**
  * Extracts domains from a parsed sitemap
  */
-export function extractDomainsFromSitemap(sitemap: ParsedSitemap): Set<string> {
+export function extractDomainsFromSitemap(
+  sitemap: ParsedSitemap,
+  options: DomainExtractionOptions = {}
+): Set<string> {
   const domains = new Set<string>();
   const ignoredUrls: string[] = [];
 
   for (const url of sitemap.urls) {
-    const domain = extractDomain(url.loc);
+    const domain = extractDomain(url.loc, options);
     if (domain) {
       domains.add(domain.name);
     } else {
@@ -229,47 +553,430 @@ export function extractDomainsFromSitemap(sitemap: ParsedSitemap): Set<string> {
     }
   }
 
-  if (ignoredUrls.length > 0) {
-    console.log(
-      `Ignored ${ignoredUrls.length} URLs without a proper domain in ${sitemap.sourceName}`
-    );
-    if (ignoredUrls.length <= 5) {
-      ignoredUrls.forEach((url) => console.log(`  - ${url}`));
+  logIgnoredUrls(
+    sitemap.sourceName,
+    ignoredUrls.length,
+    ignoredUrls.slice(0, IGNORED_URL_SAMPLE_SIZE)
+  );
+
+  return domains;
+}
+
+/**
+ * Maps each domain of the extracted URLs to the first URL it was found at
+ */
+export function firstUrlByDomain(
+  urlDomains: UrlDomainPair[]
+): Map<string, string> {
+  const domainUrls = new Map<string, string>();
+  for (const [url, domain] of urlDomains) {
+    if (!domainUrls.has(domain)) {
+      domainUrls.set(domain, url);
+    }
+  }
+  return domainUrls;
+}
+
+/**
+ * Records a page's lastmod for its domain, keeping the newest one. Lastmods
+ * are ISO strings, so they compare as text; null marks a domain seen without
+ * any valid lastmod.
+ */
+export function recordLastmod(
+  lastmods: Map<string, string | null>,
+  domain: string,
+  lastmod: string | null
+): void {
+  const newest = lastmods.get(domain) ?? null;
+  if (lastmod && (!newest || lastmod > newest)) {
+    lastmods.set(domain, lastmod);
+  } else if (!lastmods.has(domain)) {
+    lastmods.set(domain, null);
+  }
+}
+
+function toIsoLastmod(lastmod: string | undefined): string | null {
+  const date = lastmod ? new Date(lastmod) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+/**
+ * Extracts the domains of a sitemap's URLs, recording each outcome in the
+ * diagnostics and logging a sample of the ignored URLs. Returns every
+ * extracted URL with its domain, in sitemap order; when given, lastmods
+ * collects the newest lastmod of each domain.
+ */
+async function extractDomainsFromUrls(
+  urls: AsyncIterable<SitemapUrl> | Iterable<SitemapUrl>,
+  filePath: string,
+  sourceName: string,
+  options: DomainExtractionOptions,
+  diagnostics?: SourceDiagnostics,
+  lastmods?: Map<string, string | null>
+): Promise<UrlDomainPair[]> {
+  const urlDomains: UrlDomainPair[] = [];
+  const ignoredSample: string[] = [];
+  let ignoredCount = 0;
+  let urlCount = 0;
+
+  for await (const url of urls) {
+    urlCount++;
+    const extraction = extractDomainWithReason(url.loc, options);
+    if (diagnostics) {
+      recordExtraction(diagnostics, url.loc, filePath, extraction);
+    }
+
+    const domain = extraction.domain;
+    if (domain) {
+      urlDomains.push([url.loc, domain.name]);
+      if (lastmods) {
+        recordLastmod(lastmods, domain.name, toIsoLastmod(url.lastmod));
+      }
     } else {
-      ignoredUrls.slice(0, 5).forEach((url) => console.log(`  - ${url}`));
-      console.log(`  ... and ${ignoredUrls.length - 5} more`);
+      ignoredCount++;
+      if (ignoredSample.length < IGNORED_URL_SAMPLE_SIZE) {
+        ignoredSample.push(url.loc);
+      }
     }
   }
 
-  return domains;
+  if (urlCount === 0) {
+    logger.warn(`No URLs found in ${filePath}`, { file: filePath });
+  }
+
+  logIgnoredUrls(sourceName, ignoredCount, ignoredSample);
+
+  return urlDomains;
 }
 
 /**
- * Processes all sitemaps in a directory and returns a set of all domains
+ * Streams a sitemap file and extracts the domain of each of its URLs. A file
+ * that fails to parse contributes no URLs.
  */
-export async function processDirectory(
-  directory: string,
-  sourceName: string
+async function extractUrlDomainsFromSitemapFile(
+  filePath: string,
+  sourceName: string,
+  options: SitemapParseOptions & DomainExtractionOptions,
+  diagnostics?: SourceDiagnostics
+): Promise<UrlDomainPair[]> {
+  try {
+    return await extractDomainsFromUrls(
+      streamSitemapUrls(filePath, options),
+      filePath,
+      sourceName,
+      options,
+      diagnostics
+    );
+  } catch (error) {
+    logger.error(`Error parsing sitemap ${filePath}:`, {
+      file: filePath,
+      error,
+    });
+    return [];
+  }
+}
+
+/**
+ * Streams a sitemap file and extracts its domains without holding every URL
+ * in memory. A file that fails to parse contributes no domains.
+ */
+export async function extractDomainsFromSitemapFile(
+  filePath: string,
+  sourceName: string,
+  options: SitemapParseOptions & DomainExtractionOptions = {},
+  diagnostics?: SourceDiagnostics
 ): Promise<Set<string>> {
-  const allDomains = new Set<string>();
-  const files = await findSitemapFiles(directory);
-  let totalIgnored = 0;
+  const urlDomains = await extractUrlDomainsFromSitemapFile(
+    filePath,
+    sourceName,
+    options,
+    diagnostics
+  );
+  return new Set(urlDomains.map(([, domain]) => domain));
+}
 
-  console.log(`Processing ${files.length} sitemap files in ${sourceName}...`);
+/**
+ * Extracts the domains of one sitemap file through the on-disk cache: the
+ * extracted domains are reused while the file content and extraction rules
+ * are unchanged, and the parsed URLs while only the rules changed.
+ */
+async function processSitemapFileTaskWithCache(
+  task: SitemapFileTask
+): Promise<SitemapFileResult> {
+  const { filePath, sourceName, options } = task;
+  const diagnostics = createSourceDiagnostics(sourceName);
+  const hash = await hashFile(filePath);
+
+  const cached = await readCachedExtraction(hash, options);
+  if (cached) {
+    diagnostics.totalUrls = cached.totalUrls;
+    diagnostics.extractedUrls = cached.totalUrls - cached.ignoredUrls.length;
+    diagnostics.ignoredUrls = cached.ignoredUrls.map((ignored) => ({
+      ...ignored,
+      file: filePath,
+    }));
+
+    if (cached.totalUrls === 0) {
+      logger.warn(`No URLs found in ${filePath}`, { file: filePath });
+    }
+    logIgnoredUrls(
+      sourceName,
+      cached.ignoredUrls.length,
+      cached.ignoredUrls
+        .slice(0, IGNORED_URL_SAMPLE_SIZE)
+        .map((ignored) => ignored.url)
+    );
 
-  for (const file of files) {
-    try {
-      const sitemap = await parseSitemapFile(file, path.basename(file, ".xml"));
-      const domains = extractDomainsFromSitemap(sitemap);
+    return {
+      domains: cached.domains,
+      domainUrls: cached.domainUrls,
+      domainLastmods: cached.domainLastmods,
+      urlDomains: cached.urlDomains,
+      diagnostics: task.collectDiagnostics ? diagnostics : undefined,
+      cacheHit: true,
+    };
+  }
+
+  let sitemap: CachedSitemapUrls;
+  try {
+    sitemap = await loadSitemapUrls(filePath, options, hash);
+  } catch (error) {
+    return {
+      domains: [],
+      domainUrls: [],
+      domainLastmods: [],
+      urlDomains: [],
+      diagnostics: task.collectDiagnostics ? diagnostics : undefined,
+      error: error instanceof Error ? error.message : String(error),
+      cacheHit: false,
+    };
+  }
+
+  const lastmods = new Map<string, string | null>();
+  const urlDomains = await extractDomainsFromUrls(
+    sitemap.urls,
+    filePath,
+    sourceName,
+    options,
+    diagnostics,
+    lastmods
+  );
+  const extracted = firstUrlByDomain(urlDomains);
+  const domains = [...extracted.keys()];
+  const domainUrls = [...extracted.values()];
+  const domainLastmods = domains.map((domain) => lastmods.get(domain) ?? null);
+  await writeCachedExtraction(
+    hash,
+    {
+      childSitemaps: sitemap.childSitemaps,
+      totalUrls: diagnostics.totalUrls,
+      domains,
+      domainUrls,
+      domainLastmods,
+      urlDomains,
+      ignoredUrls: diagnostics.ignoredUrls.map(({ url, reason }) => ({
+        url,
+        reason,
+      })),
+    },
+    options
+  );
+
+  return {
+    domains,
+    domainUrls,
+    domainLastmods,
+    urlDomains,
+    diagnostics: task.collectDiagnostics ? diagnostics : undefined,
+    cacheHit: false,
+  };
+}
 
-      console.log(`Found ${domains.size} domains in ${path.basename(file)}`);
+/**
+ * Parses one sitemap file and extracts its domains. Runs either in-process or
+ * inside a worker thread, so the result is plain serializable data. A file
+ * that can't be read or parsed yields no domains and an error.
+ */
+export async function processSitemapFileTask(
+  task: SitemapFileTask
+): Promise<SitemapFileResult> {
+  try {
+    if (isCacheEnabled(task.options)) {
+      return await processSitemapFileTaskWithCache(task);
+    }
+
+    const diagnostics = task.collectDiagnostics
+      ? createSourceDiagnostics(task.sourceName)
+      : undefined;
+    const lastmods = new Map<string, string | null>();
+    const urlDomains = await extractDomainsFromUrls(
+      streamSitemapUrls(task.filePath, task.options),
+      task.filePath,
+      task.sourceName,
+      task.options,
+      diagnostics,
+      lastmods
+    );
+    const extracted = firstUrlByDomain(urlDomains);
+    const domains = [...extracted.keys()];
+    return {
+      domains,
+      domainUrls: [...extracted.values()],
+      domainLastmods: domains.map((domain) => lastmods.get(domain) ?? null),
+      urlDomains,
+      diagnostics,
+    };
+  } catch (error) {
+    return {
+      domains: [],
+      domainUrls: [],
+      domainLastmods: [],
+      urlDomains: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
 
-      // Merge domains into the all domains set
-      domains.forEach((domain) => allDomains.add(domain));
-    } catch (error) {
-      console.error(`Error processing ${file}:`, error);
+/**
+ * Parses sitemap files and extracts their domains, spreading the files across
+ * a pool of worker threads when the concurrency level allows it. Results are
+ * returned in the same order as the input files.
+ */
+export async function extractDomainsFromFiles(
+  files: { filePath: string; sourceName: string }[],
+  options: SitemapProcessingOptions = {},
+  collectDiagnostics = false
+): Promise<SitemapFileResult[]> {
+  const { concurrency, ...fileOptions } = options;
+  const tasks: SitemapFileTask[] = files.map((file) => ({
+    ...file,
+    options: fileOptions,
+    collectDiagnostics,
+  }));
+
+  let results: SitemapFileResult[] = [];
+  const workerCount = resolveConcurrency(concurrency);
+  if (workerCount <= 1 || tasks.length <= 1) {
+    for (const task of tasks) {
+      results.push(await processSitemapFileTask(task));
     }
+  } else {
+    // Use the worker matching how we're running (.ts via ts-node, .js when built)
+    const workerFile = path.join(
+      __dirname,
+      `sitemapWorker${path.extname(__filename)}`
+    );
+    results = await runWorkerPool<SitemapFileTask, SitemapFileResult>(
+      workerFile,
+      tasks,
+      workerCount
+    );
   }
 
+  // Workers keep their own counters, so count cache lookups from the results
+  results.forEach((result) => {
+    if (result.cacheHit !== undefined) {
+      recordCacheLookup(result.cacheHit);
+    }
+  });
+
+  return results;
+}
+
+/**
+ * Processes the sitemap files of one source and returns a set of all domains.
+ * When given, urlDomains collects every extracted URL with its domain and
+ * lastmods the newest lastmod of each domain.
+ */
+export async function processSitemapFiles(
+  files: string[],
+  sourceName: string,
+  options: SitemapProcessingOptions = {},
+  diagnostics?: SourceDiagnostics,
+  urlDomains?: UrlDomainPair[],
+  lastmods?: Map<string, string | null>
+): Promise<Set<string>> {
+  const allDomains = new Set<string>();
+
+  logger.info(`Processing ${files.length} sitemap files in ${sourceName}...`, {
+    stage: "extract",
+    source: sourceName,
+    counts: { files: files.length },
+  });
+
+  const results = await extractDomainsFromFiles(
+    files.map((file) => ({
+      filePath: file,
+      sourceName: sitemapBaseName(file),
+    })),
+    options,
+    diagnostics !== undefined
+  );
+
+  results.forEach((result, index) => {
+    const file = files[index];
+    if (diagnostics) {
+      recordFileResult(diagnostics, file, result);
+    }
+    if (result.error) {
+      logger.error(`Error processing ${file}:`, {
+        stage: "extract",
+        source: sourceName,
+        file,
+        error: result.error,
+      });
+      return;
+    }
+
+    logger.info(
+      `Found ${result.domains.length} domains in ${path.basename(file)}`,
+      {
+        stage: "extract",
+        source: sourceName,
+        file,
+        counts: { domains: result.domains.length },
+      }
+    );
+
+    // Merge domains into the all domains set
+    result.domains.forEach((domain) => allDomains.add(domain));
+    // Pushed one by one, since a large sitemap can outgrow spread arguments
+    if (urlDomains) {
+      for (const urlDomain of result.urlDomains) urlDomains.push(urlDomain);
+    }
+    if (lastmods) {
+      result.domains.forEach((domain, domainIndex) =>
+        recordLastmod(lastmods, domain, result.domainLastmods[domainIndex])
+      );
+    }
+  });
+
   return allDomains;
 }
+
+/**
+ * Processes all sitemaps in a directory and returns a set of all domains.
+ * When given, urlDomains collects every extracted URL with its domain and
+ * lastmods the newest lastmod of each domain.
+ */
+export async function processDirectory(
+  directory: string,
+  sourceName: string,
+  options: SitemapProcessingOptions = {},
+  diagnostics?: SourceDiagnostics,
+  urlDomains?: UrlDomainPair[],
+  lastmods?: Map<string, string | null>
+): Promise<Set<string>> {
+  // Sort so domains are merged in the same order at any concurrency level
+  return processSitemapFiles(
+    await excludeIndexChildren(
+      (await findSitemapFiles(directory)).sort(),
+      options
+    ),
+    sourceName,
+    options,
+    diagnostics,
+    urlDomains,
+    lastmods
+  );
+}
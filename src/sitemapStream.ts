@@ -0,0 +1,165 @@
+import sax from "sax";
+import { Readable } from "stream";
+import { SitemapUrl } from "./types";
+
+/**
+ * A record emitted by the streaming parser: either a page URL or, for
+ * sitemap index documents, the location of a child sitemap
+ */
+export type SitemapStreamEntry =
+  | { type: "url"; url: SitemapUrl }
+  | { type: "sitemap"; loc: string };
+
+type UrlField = "loc" | "lastmod" | "changefreq" | "priority";
+
+const URL_FIELDS: UrlField[] = ["loc", "lastmod", "changefreq", "priority"];
+
+// Same pattern the whole-document parser used for its last-resort fallback
+const URL_REGEX = /(https?:\/\/[^\s<>"']+)/g;
+
+interface OpenElement {
+  name: string;
+  text?: string;
+  fields: Partial<Record<UrlField, string>>;
+}
+
+/**
+ * Turns the collected child fields of an element into a SitemapUrl
+ */
+function toSitemapUrl(fields: Partial<Record<UrlField, string>>): SitemapUrl {
+  return {
+    loc: fields.loc || "",
+    lastmod: fields.lastmod,
+    changefreq: fields.changefreq,
+    priority: fields.priority,
+  };
+}
+
+/**
+ * Streams a sitemap document and yields entries one at a time.
+ *
+ * Mirrors the whole-document parser:
+ * - `<urlset>` or non-standard `<xml>` roots yield their direct `<url>` children
+ * - `<sitemapindex>` roots yield the `<loc>` of each `<sitemap>` child
+ * - any other document yields every element that has a `<loc>` child
+ * - documents without any `<loc>` fall back to URL-looking text
+ *
+ * Only the loose fallbacks need buffering, and only until the first `<url>`
+ * or `<loc>` shows the document doesn't need them.
+ */
+export async function* streamSitemapDocument(
+  input: Readable
+): AsyncGenerator<SitemapStreamEntry> {
+  const parser = sax.parser(true, {});
+  const stack: OpenElement[] = [];
+  const pending: SitemapStreamEntry[] = [];
+
+  let rootName: string | null = null;
+  let sawUrlElement = false;
+  let sawLocHolder = false;
+  let looseEntries: SitemapStreamEntry[] = [];
+  let regexMatches: string[] = [];
+
+  const isStructured = () => rootName === "urlset" || rootName === "xml";
+
+  const collectRegexMatches = (text: string) => {
+    if (sawLocHolder || sawUrlElement) return;
+    const matches = text.match(URL_REGEX);
+    if (matches) regexMatches.push(...matches);
+  };
+
+  parser.onopentag = (node) => {
+    if (rootName === null) rootName = node.name;
+    stack.push({ name: node.name, fields: {} });
+
+    for (const value of Object.values(node.attributes)) {
+      collectRegexMatches(String(value));
+    }
+  };
+
+  parser.ontext = (text) => {
+    collectRegexMatches(text);
+
+    // Whitespace between elements is not content
+    if (!text.trim() || stack.length === 0) return;
+    const current = stack[stack.length - 1];
+    current.text = (current.text || "") + text;
+  };
+
+  parser.oncdata = collectRegexMatches;
+  parser.oncomment = collectRegexMatches;
+  parser.ondoctype = collectRegexMatches;
+
+  parser.onclosetag = () => {
+    const element = stack.pop();
+    if (!element) return;
+    const parent = stack[stack.length - 1];
+
+    // Record loc/lastmod/changefreq/priority on the enclosing element
+    if (parent && URL_FIELDS.includes(element.name as UrlField)) {
+      if (element.text !== undefined) {
+        parent.fields[element.name as UrlField] = element.text;
+      }
+      return;
+    }
+
+    const isRootChild = stack.length === 1;
+
+    if (rootName === "sitemapindex") {
+      const loc = element.fields.loc?.trim();
+      if (isRootChild && element.name === "sitemap" && loc) {
+        pending.push({ type: "sitemap", loc });
+      }
+      return;
+    }
+
+    if (isStructured() && isRootChild && element.name === "url") {
+      if (!sawUrlElement) {
+        sawUrlElement = true;
+        looseEntries = [];
+        regexMatches = [];
+      }
+      if (element.fields.loc) {
+        pending.push({ type: "url", url: toSitemapUrl(element.fields) });
+      }
+      return;
+    }
+
+    if (element.fields.loc) {
+      sawLocHolder = true;
+      regexMatches = [];
+      const entry: SitemapStreamEntry = {
+        type: "url",
+        url: toSitemapUrl(element.fields),
+      };
+
+      // Loose matches in a urlset only count if it turns out to have no <url>
+      if (!isStructured()) {
+        pending.push(entry);
+      } else if (!sawUrlElement) {
+        looseEntries.push(entry);
+      }
+    }
+  };
+
+  parser.onerror = (error) => {
+    throw error;
+  };
+
+  for await (const chunk of input) {
+    parser.write(chunk.toString());
+    yield* pending.splice(0, pending.length);
+  }
+  parser.close();
+  yield* pending.splice(0, pending.length);
+
+  if (rootName === "sitemapindex" || sawUrlElement) return;
+
+  yield* looseEntries;
+
+  if (!sawLocHolder) {
+    for (const loc of regexMatches) {
+      yield { type: "url", url: { loc } };
+    }
+  }
+}
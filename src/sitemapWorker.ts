@@ -0,0 +1,12 @@
+import { parentPort, workerData } from "worker_threads";
+import { configureLogger } from "./logger";
+import { processSitemapFileTask } from "./sitemapParser";
+import { SitemapFileTask } from "./types";
+
+// Log like the main thread (--log-format, --quiet)
+configureLogger(workerData || {});
+
+// Each message is one sitemap file to parse; reply with its domains
+parentPort?.on("message", async (task: SitemapFileTask) => {
+  parentPort?.postMessage(await processSitemapFileTask(task));
+});
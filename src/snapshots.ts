@@ -0,0 +1,223 @@
+import fs from "fs-extra";
+import path from "path";
+import zlib from "zlib";
+import { createObjectCsvWriter } from "csv-writer";
+import {
+  CompetitorDiff,
+  CompetitorOverlap,
+  DomainSnapshot,
+  SnapshotDiff,
+  SourceDiff,
+} from "./types";
+
+// Kept outside the directories `npm run generate` clears
+export const DEFAULT_SNAPSHOT_DIR = path.join("output", "snapshots");
+
+const SNAPSHOT_EXTENSION = ".json.gz";
+
+/**
+ * Turns a date into a sortable, file-name safe snapshot id down to the
+ * millisecond, so runs within the same second keep their own snapshot
+ * (2026-10-19T08:30:00.123Z -> 2026-10-19T08-30-00-123Z)
+ */
+export function snapshotId(date: Date): string {
+  return `${date.toISOString().slice(0, 23).replace(/[:.]/g, "-")}Z`;
+}
+
+/**
+ * Captures the domain set of every source and the competitor results of a run
+ */
+export function buildSnapshot(
+  sourceMap: Map<string, Set<string>>,
+  competitors: CompetitorOverlap[],
+  baselineName: string,
+  registrableDomain: boolean,
+  date: Date = new Date()
+): DomainSnapshot {
+  const domains: Record<string, string[]> = {};
+  for (const [sourceName, sourceDomains] of sourceMap.entries()) {
+    domains[sourceName] = [...sourceDomains].sort();
+  }
+
+  return {
+    id: snapshotId(date),
+    createdAt: date.toISOString(),
+    baselineName,
+    registrableDomain,
+    domains,
+    competitors,
+  };
+}
+
+/**
+ * Saves a snapshot as gzipped JSON to <snapshotDir>/<id>.json.gz, returning
+ * its path. An existing snapshot with the same id is never overwritten.
+ */
+export async function writeSnapshot(
+  snapshot: DomainSnapshot,
+  snapshotDir: string = DEFAULT_SNAPSHOT_DIR
+): Promise<string> {
+  const snapshotPath = path.join(
+    snapshotDir,
+    `${snapshot.id}${SNAPSHOT_EXTENSION}`
+  );
+  await fs.ensureDir(snapshotDir);
+  try {
+    await fs.writeFile(
+      snapshotPath,
+      zlib.gzipSync(Buffer.from(JSON.stringify(snapshot))),
+      { flag: "wx" }
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(
+        `Snapshot ${snapshot.id} already exists at ${snapshotPath}`
+      );
+    }
+    throw error;
+  }
+  return snapshotPath;
+}
+
+/**
+ * Lists the ids of every saved snapshot, oldest first
+ */
+export async function listSnapshots(
+  snapshotDir: string = DEFAULT_SNAPSHOT_DIR
+): Promise<string[]> {
+  if (!(await fs.pathExists(snapshotDir))) return [];
+  return (await fs.readdir(snapshotDir))
+    .filter((file) => file.endsWith(SNAPSHOT_EXTENSION))
+    .map((file) => file.slice(0, -SNAPSHOT_EXTENSION.length))
+    .sort();
+}
+
+/**
+ * Finds the latest snapshot whose id starts with the given prefix, so
+ * "2026-09" picks the last snapshot taken in September 2026
+ */
+export function findSnapshot(ids: string[], prefix: string): string | null {
+  const matches = ids.filter((id) => id.startsWith(prefix));
+  return matches.length > 0 ? matches[matches.length - 1] : null;
+}
+
+/**
+ * Reads a saved snapshot by id
+ */
+export async function readSnapshot(
+  id: string,
+  snapshotDir: string = DEFAULT_SNAPSHOT_DIR
+): Promise<DomainSnapshot> {
+  const data = await fs.readFile(
+    path.join(snapshotDir, `${id}${SNAPSHOT_EXTENSION}`)
+  );
+  return JSON.parse(zlib.gunzipSync(data).toString("utf8"));
+}
+
+/**
+ * Lists the domains added to and removed from a source between two snapshots
+ */
+function diffSource(
+  sourceName: string,
+  previousDomains: string[] = [],
+  currentDomains: string[] = []
+): SourceDiff {
+  const previous = new Set(previousDomains);
+  const current = new Set(currentDomains);
+
+  return {
+    sourceName,
+    previousDomainCount: previous.size,
+    currentDomainCount: current.size,
+    addedDomains: currentDomains.filter((domain) => !previous.has(domain)),
+    removedDomains: previousDomains.filter((domain) => !current.has(domain)),
+  };
+}
+
+/**
+ * Compares two snapshots: the domains each competitor (and the baseline)
+ * gained or lost, and how each competitor's overlap percentage moved.
+ * Competitors keep the order of the newer snapshot; ones it no longer has
+ * come last.
+ */
+export function diffSnapshots(
+  previous: DomainSnapshot,
+  current: DomainSnapshot
+): SnapshotDiff {
+  const previousResults = new Map(
+    previous.competitors.map((result) => [result.competitorName, result])
+  );
+  const currentResults = new Map(
+    current.competitors.map((result) => [result.competitorName, result])
+  );
+  const competitorNames = [
+    ...currentResults.keys(),
+    ...[...previousResults.keys()].filter((name) => !currentResults.has(name)),
+  ];
+
+  const competitors: CompetitorDiff[] = competitorNames.map((name) => {
+    const previousOverlap = previousResults.get(name)?.overlapPercentage;
+    const currentOverlap = currentResults.get(name)?.overlapPercentage;
+    const bothPresent =
+      previousOverlap !== undefined && currentOverlap !== undefined;
+
+    return {
+      ...diffSource(name, previous.domains[name], current.domains[name]),
+      previousOverlapPercentage: previousOverlap ?? null,
+      currentOverlapPercentage: currentOverlap ?? null,
+      overlapPercentageChange: bothPresent
+        ? Math.round((currentOverlap - previousOverlap) * 100) / 100
+        : null,
+    };
+  });
+
+  return {
+    fromSnapshot: previous.id,
+    toSnapshot: current.id,
+    baseline: diffSource(
+      current.baselineName,
+      previous.domains[current.baselineName],
+      current.domains[current.baselineName]
+    ),
+    competitors,
+  };
+}
+
+/**
+ * Writes a diff to <outputDir>/snapshot-diff.json and
+ * <outputDir>/snapshot-diff.csv, the latter with one row per added or
+ * removed domain
+ */
+export async function writeSnapshotDiff(
+  diff: SnapshotDiff,
+  outputDir: string
+): Promise<void> {
+  await fs.ensureDir(outputDir);
+  await fs.writeJSON(path.join(outputDir, "snapshot-diff.json"), diff, {
+    spaces: 2,
+  });
+
+  const csvWriter = createObjectCsvWriter({
+    path: path.join(outputDir, "snapshot-diff.csv"),
+    header: [
+      { id: "source", title: "Source" },
+      { id: "domain", title: "Domain" },
+      { id: "change", title: "Change" },
+    ],
+  });
+
+  const records: { source: string; domain: string; change: string }[] = [];
+  for (const sourceDiff of [diff.baseline, ...diff.competitors]) {
+    for (const domain of sourceDiff.addedDomains) {
+      records.push({ source: sourceDiff.sourceName, domain, change: "Added" });
+    }
+    for (const domain of sourceDiff.removedDomains) {
+      records.push({
+        source: sourceDiff.sourceName,
+        domain,
+        change: "Removed",
+      });
+    }
+  }
+  await csvWriter.writeRecords(records);
+}
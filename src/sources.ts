@@ -0,0 +1,320 @@
+import fs from "fs-extra";
+import path from "path";
+import { createSourceDiagnostics, recordFileResult } from "./diagnostics";
+import { logger } from "./logger";
+import {
+  excludeIndexChildren,
+  extractDomainsFromFiles,
+  findChildSitemaps,
+  findSitemapFiles,
+  isSitemapFile,
+  processSitemapFiles,
+  sitemapBaseName,
+} from "./sitemapParser";
+import {
+  BaselineNaming,
+  DomainExtractionOptions,
+  SitemapProcessingOptions,
+  SitemapSource,
+  SourceDiagnostics,
+  UrlDomainPair,
+} from "./types";
+
+export const DEALSPOTR_SOURCE: SitemapSource = {
+  name: "DealsPotr",
+  path: "dealspotr",
+  isDirectory: true,
+};
+
+export const COMPETITORS_DIR = "competitors";
+
+/**
+ * Returns the competitor a sitemap file belongs to, dropping a part number
+ * ("rakuten.com-2" and "rakuten.com (2)" -> "rakuten.com")
+ */
+export function competitorBaseName(fileBaseName: string): string {
+  return fileBaseName.replace(/\s*\(\d+\)$/, "").replace(/-\d+$/, "");
+}
+
+/**
+ * Finds every competitor source: the sitemap files directly in the
+ * competitors directory, grouped by competitor, then each subdirectory of
+ * sitemap files. Only files sharing a base name are grouped; a lone file
+ * keeps its full name, so "deals-365.xml" stays "deals-365". Files and directories holding the children of a sitemap
+ * index belong to the index's competitor, so they are left out.
+ */
+export async function findCompetitorSources(
+  competitorDir: string = COMPETITORS_DIR
+): Promise<SitemapSource[]> {
+  const entries = await fs.readdir(competitorDir, { withFileTypes: true });
+  const sitemapFiles = entries
+    .filter((entry) => entry.isFile() && isSitemapFile(entry.name))
+    .map((entry) => entry.name)
+    .sort();
+
+  // Top-level entries some index reads its child sitemaps from; a file that
+  // fails to parse counts as a urlset and is reported by the analysis
+  const indexChildren = new Set<string>();
+  for (const file of sitemapFiles) {
+    const children = await findChildSitemaps(
+      path.join(competitorDir, file)
+    ).catch(() => []);
+    for (const child of children) {
+      const relative = path.relative(competitorDir, child);
+      if (!relative.startsWith("..")) {
+        indexChildren.add(relative.split(path.sep)[0]);
+      }
+    }
+  }
+
+  const fileGroups = new Map<string, string[]>();
+  sitemapFiles
+    .filter((file) => !indexChildren.has(file))
+    .forEach((file) => {
+      const name = competitorBaseName(sitemapBaseName(file));
+      fileGroups.set(name, [
+        ...(fileGroups.get(name) || []),
+        path.join(competitorDir, file),
+      ]);
+    });
+  const files = [...fileGroups.entries()].map(([name, groupFiles]) =>
+    groupFiles.length === 1
+      ? {
+          name: sitemapBaseName(groupFiles[0]),
+          path: groupFiles[0],
+          isDirectory: false,
+        }
+      : { name, path: competitorDir, isDirectory: false, files: groupFiles }
+  );
+
+  const directories = entries
+    .filter(
+      (entry) =>
+        entry.isDirectory() &&
+        !entry.name.startsWith(".") &&
+        !indexChildren.has(entry.name)
+    )
+    .map((entry) => ({
+      name: entry.name,
+      path: path.join(competitorDir, entry.name),
+      isDirectory: true,
+    }));
+
+  return [...files, ...directories];
+}
+
+/**
+ * Returns every sitemap file of a source, sorted, leaving out the children a
+ * sitemap index of the source already merges
+ */
+export async function findSourceFiles(
+  source: SitemapSource
+): Promise<string[]> {
+  if (!source.files && !source.isDirectory) return [source.path];
+  return excludeIndexChildren(
+    source.files
+      ? [...source.files].sort()
+      : (await findSitemapFiles(source.path)).sort()
+  );
+}
+
+/**
+ * Returns the extraction options of a source, with its own rules if it has any
+ */
+export function sourceOptions<T extends DomainExtractionOptions>(
+  source: SitemapSource,
+  options: T
+): T {
+  return source.rules ? { ...options, rules: source.rules } : options;
+}
+
+/**
+ * Reads the `--baseline <source>` command line flag
+ */
+export function parseBaselineArg(args: string[]): string | undefined {
+  if (!args.includes("--baseline")) return undefined;
+  return args[args.indexOf("--baseline") + 1];
+}
+
+/**
+ * Returns true if a source name matches a requested name, ignoring case and
+ * optionally the TLD (so "retailmenot" selects "retailmenot.com")
+ */
+export function matchesSourceName(name: string, requested: string): boolean {
+  const normalizedName = name.toLowerCase();
+  const normalizedRequest = requested.toLowerCase();
+  return (
+    normalizedName === normalizedRequest ||
+    normalizedName.split(".")[0] === normalizedRequest
+  );
+}
+
+/**
+ * Splits the sources into the baseline everything is compared against
+ * (DealsPotr unless another source is requested) and the competitors
+ */
+export function selectBaseline(
+  sources: SitemapSource[],
+  requested: string = DEALSPOTR_SOURCE.name
+): { baseline: SitemapSource; competitors: SitemapSource[] } {
+  const baseline =
+    sources.find((source) => source.name === requested) ||
+    sources.find((source) => matchesSourceName(source.name, requested));
+  if (!baseline) {
+    throw new Error(
+      `Unknown baseline source "${requested}". Available sources: ${sources
+        .map((source) => source.name)
+        .join(", ")}`
+    );
+  }
+
+  return {
+    baseline,
+    competitors: sources.filter((source) => source !== baseline),
+  };
+}
+
+/**
+ * Turns a source name into a file-name friendly slug ("DealsPotr" -> "dealspotr")
+ */
+export function sourceSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9.-]+/g, "-");
+}
+
+/**
+ * Names of the baseline-specific output fields. Legacy names keep the
+ * DealsPotr-specific fields older consumers read, whatever the baseline.
+ */
+export function baselineNaming(
+  baselineName: string,
+  legacyFieldNames = false
+): BaselineNaming {
+  if (legacyFieldNames) {
+    return {
+      domainsCountField: "dealsptrDomainsCount",
+      brandsCountField: "dealsptrBrandsCount",
+      onlyDomainsCountField: "dealsptrOnlyDomainsCount",
+      locColumn: "dealspotr loc",
+      brandLocColumn: "dealspotr brand loc",
+    };
+  }
+
+  const slug = sourceSlug(baselineName);
+  return {
+    domainsCountField: "baselineDomainsCount",
+    brandsCountField: "baselineBrandsCount",
+    onlyDomainsCountField: "baselineOnlyDomainsCount",
+    locColumn: `${slug} loc`,
+    brandLocColumn: `${slug} brand loc`,
+  };
+}
+
+/**
+ * Extracts the domains of each source, keyed by source name in the order of
+ * the given sources. Single-file sources are parsed together so they can
+ * share the worker pool; the others are processed one at a time. When given,
+ * diagnosticsMap collects diagnostics per source, urlDomainsMap every URL
+ * each source lists with the domain extracted from it and lastmodsMap the
+ * newest lastmod of each domain per source.
+ */
+export async function extractSourceDomains(
+  sources: SitemapSource[],
+  options: SitemapProcessingOptions,
+  diagnosticsMap?: Map<string, SourceDiagnostics>,
+  urlDomainsMap?: Map<string, UrlDomainPair[]>,
+  lastmodsMap?: Map<string, Map<string, string | null>>
+): Promise<Map<string, Set<string>>> {
+  const domainsBySource = new Map<string, Set<string>>();
+
+  const isSingleFile = (source: SitemapSource) =>
+    !source.isDirectory && !source.files && !source.rules;
+  const fileSources = sources.filter(isSingleFile);
+  if (fileSources.length > 0) {
+    logger.info(
+      `Processing ${fileSources.length} sitemap files: ${fileSources
+        .map((source) => source.name)
+        .join(", ")}`,
+      { stage: "extract", counts: { files: fileSources.length } }
+    );
+  }
+  const fileResults = await extractDomainsFromFiles(
+    fileSources.map((source) => ({
+      filePath: source.path,
+      sourceName: source.name,
+    })),
+    options,
+    diagnosticsMap !== undefined
+  );
+
+  fileSources.forEach((source, index) => {
+    const result = fileResults[index];
+    if (diagnosticsMap) {
+      const diagnostics = createSourceDiagnostics(source.name);
+      recordFileResult(diagnostics, source.path, result);
+      diagnosticsMap.set(source.name, diagnostics);
+    }
+
+    if (result.error) {
+      logger.error(`Error processing ${source.path}:`, {
+        stage: "extract",
+        source: source.name,
+        file: source.path,
+        error: result.error,
+      });
+      domainsBySource.set(source.name, new Set<string>());
+      return;
+    }
+
+    const domains = new Set(result.domains);
+    logger.info(`Found ${domains.size} domains in ${source.name}`, {
+      stage: "extract",
+      source: source.name,
+      counts: { domains: domains.size },
+    });
+    domainsBySource.set(source.name, domains);
+    urlDomainsMap?.set(source.name, result.urlDomains);
+    lastmodsMap?.set(
+      source.name,
+      new Map(
+        result.domains.map((domain, index) => [
+          domain,
+          result.domainLastmods[index],
+        ])
+      )
+    );
+  });
+
+  for (const source of sources.filter((source) => !isSingleFile(source))) {
+    const diagnostics = diagnosticsMap
+      ? createSourceDiagnostics(source.name)
+      : undefined;
+    if (diagnosticsMap && diagnostics) {
+      diagnosticsMap.set(source.name, diagnostics);
+    }
+    const urlDomains: UrlDomainPair[] | undefined = urlDomainsMap
+      ? []
+      : undefined;
+    const lastmods = lastmodsMap ? new Map<string, string | null>() : undefined;
+
+    const domains = await processSitemapFiles(
+      await findSourceFiles(source),
+      source.name,
+      sourceOptions(source, options),
+      diagnostics,
+      urlDomains,
+      lastmods
+    );
+    domainsBySource.set(source.name, domains);
+    if (urlDomainsMap && urlDomains) {
+      urlDomainsMap.set(source.name, urlDomains);
+    }
+    if (lastmodsMap && lastmods) {
+      lastmodsMap.set(source.name, lastmods);
+    }
+  }
+
+  // Keep the order of the given sources rather than files-first
+  return new Map(
+    sources.map((source) => [source.name, domainsBySource.get(source.name)!])
+  );
+}
@@ -0,0 +1,156 @@
+import fs from "fs-extra";
+import path from "path";
+import {
+  CommandPaths,
+  DEFAULT_CONFIG_FILE,
+  cacheDir,
+  parsePathArgs,
+  scrapeStatePath,
+  snapshotDir,
+} from "./cliOptions";
+import {
+  loadProjectConfig,
+  resolveScrapeStatePath,
+  resolveSources,
+} from "./projectConfig";
+import { listSnapshots } from "./snapshots";
+import { findSourceFiles } from "./sources";
+
+export interface ProjectStatus {
+  configFile: string | null; // null when the directory convention applies
+  sources: { name: string; fileCount: number }[]; // Baseline first
+  sourcesError: string | null; // Why the sources couldn't be resolved
+  analysis: {
+    path: string;
+    baselineName: string;
+    competitorCount: number;
+    updatedAt: string;
+  } | null;
+  snapshotCount: number;
+  latestSnapshot: string | null;
+  scrapeState: {
+    path: string;
+    totalLinks: number;
+    completedLinks: number;
+    failedLinks: number;
+    pendingLinks: number;
+    lastUpdated: string;
+  } | null;
+  cacheEntryCount: number;
+}
+
+/**
+ * Collects what the input directories hold and which outputs exist so far
+ */
+export async function collectStatus(
+  paths: CommandPaths
+): Promise<ProjectStatus> {
+  let configFile: string | null = null;
+  const sources: ProjectStatus["sources"] = [];
+  let sourcesError: string | null = null;
+  try {
+    if (await loadProjectConfig(paths)) {
+      configFile = paths.configFile || DEFAULT_CONFIG_FILE;
+    }
+    for (const source of (await resolveSources(paths)).sources) {
+      sources.push({
+        name: source.name,
+        fileCount: (await findSourceFiles(source)).length,
+      });
+    }
+  } catch (error) {
+    sourcesError = error instanceof Error ? error.message : String(error);
+  }
+
+  const resultsPath = path.join(paths.outputDir, "domain-overlap-results.json");
+  let analysis: ProjectStatus["analysis"] = null;
+  if (await fs.pathExists(resultsPath)) {
+    const saved = await fs.readJSON(resultsPath);
+    analysis = {
+      path: resultsPath,
+      baselineName: saved.baselineName ?? "DealsPotr",
+      competitorCount: (saved.competitors || []).length,
+      updatedAt: (await fs.stat(resultsPath)).mtime.toISOString(),
+    };
+  }
+
+  const snapshotIds = await listSnapshots(snapshotDir(paths));
+
+  const statePath = sourcesError
+    ? scrapeStatePath(paths)
+    : await resolveScrapeStatePath(paths);
+  let scrapeState: ProjectStatus["scrapeState"] = null;
+  if (await fs.pathExists(statePath)) {
+    const state = await fs.readJSON(statePath);
+    scrapeState = {
+      path: statePath,
+      totalLinks: state.totalLinks,
+      completedLinks: state.completedLinks,
+      failedLinks: state.failedLinks,
+      pendingLinks: state.pendingLinks,
+      lastUpdated: state.lastUpdated,
+    };
+  }
+
+  const cachePath = cacheDir(paths);
+  const cacheEntryCount = (await fs.pathExists(cachePath))
+    ? (await fs.readdir(cachePath)).filter((file) =>
+        file.endsWith(".urls.json")
+      ).length
+    : 0;
+
+  return {
+    configFile,
+    sources,
+    sourcesError,
+    analysis,
+    snapshotCount: snapshotIds.length,
+    latestSnapshot: snapshotIds[snapshotIds.length - 1] || null,
+    scrapeState,
+    cacheEntryCount,
+  };
+}
+
+/**
+ * Prints the status of the inputs and outputs with the given command line
+ * arguments
+ */
+export async function runStatus(args: string[]): Promise<void> {
+  const paths = parsePathArgs(args);
+  const status = await collectStatus(paths);
+
+  // The status is this command's output rather than a log, so it's printed
+  // regardless of --quiet and --log-format
+  console.log(
+    `--- Inputs (${status.configFile || "directory convention"}) ---`
+  );
+  if (status.sourcesError) {
+    console.log(`Sources can't be resolved: ${status.sourcesError}`);
+  }
+  status.sources.forEach((source, index) =>
+    console.log(
+      `${index === 0 ? "Baseline" : "Competitor"} ${source.name}: ${
+        source.fileCount
+      } sitemap ${source.fileCount === 1 ? "file" : "files"}`
+    )
+  );
+
+  console.log(`\n--- Outputs (${paths.outputDir}) ---`);
+  console.log(
+    status.analysis
+      ? `Analysis: ${status.analysis.baselineName} against ${status.analysis.competitorCount} competitors, updated ${status.analysis.updatedAt}`
+      : 'Analysis: not run yet ("merchant-compare analyze")'
+  );
+  console.log(
+    `Snapshots: ${status.snapshotCount}${
+      status.latestSnapshot ? `, latest ${status.latestSnapshot}` : ""
+    }`
+  );
+  const state = status.scrapeState;
+  console.log(
+    state
+      ? `Scrape state: ${state.completedLinks}/${state.totalLinks} completed, ${state.failedLinks} failed, ${state.pendingLinks} pending, updated ${state.lastUpdated}`
+      : `Scrape state: not found ("merchant-compare extract-links")`
+  );
+  console.log(`Sitemap cache: ${status.cacheEntryCount} cached sitemaps`);
+}
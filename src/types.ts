@@ -8,21 +8,394 @@ export interface SitemapUrl {
 export interface ParsedSitemap {
   sourceName: string;
   urls: SitemapUrl[];
+  childSitemaps?: string[]; // Local child files merged from a sitemap index
+}
+
+export interface SitemapCacheOptions {
+  cache?: boolean; // Set to false to bypass the on-disk cache (--no-cache)
+  cacheDir?: string; // Defaults to output/.cache
+}
+
+export interface SitemapParseOptions extends SitemapCacheOptions {
+  childSitemapMap?: Record<string, string>; // Child sitemap URL -> local file path
+}
+
+export interface PathPattern {
+  pattern: string; // Regex matched against the URL path; group 1 is the merchant domain
+  rejectSegments?: string[]; // Captured values that are never merchant domains (e.g. "all")
+  requireDot?: boolean; // Reject captured values without a dot (defaults to true)
+}
+
+export interface ExtractionRule {
+  pathPatterns?: PathPattern[]; // Tried first; a match decides the result
+  matchDomainSegments?: boolean; // Look for any domain-like path segment
+  knownSegments?: string[]; // Segments whose next segment holds the domain
+  rejectPatterns?: PathPattern[]; // Tried last; a match without a domain rejects the URL
+  hostnameFallback?: boolean; // Use the hostname itself for URLs without a path
+}
+
+export interface ExtractionRuleSet {
+  version: number; // Bump whenever the rules change what gets extracted
+  defaults: ExtractionRule;
+  sources: Record<string, ExtractionRule>; // Keyed by source hostname
+}
+
+export interface DomainNormalizationOptions {
+  registrableDomain?: boolean; // Reduce canonical domains to the registrable domain
+}
+
+export interface DomainExtractionOptions extends DomainNormalizationOptions {
+  rules?: ExtractionRuleSet;
+}
+
+export interface SitemapProcessingOptions
+  extends SitemapParseOptions,
+    DomainExtractionOptions {
+  concurrency?: number; // Worker threads used to parse sitemap files (1 = in-process)
+}
+
+export interface SitemapFileTask {
+  filePath: string;
+  sourceName: string;
+  options: SitemapParseOptions & DomainExtractionOptions;
+  collectDiagnostics: boolean;
+}
+
+// An extracted URL and the domain extracted from it
+export type UrlDomainPair = [string, string];
+
+export interface SitemapFileResult {
+  domains: string[]; // In the order they were first seen in the file
+  domainUrls: string[]; // First URL each domain was found at, aligned with domains
+  domainLastmods: (string | null)[]; // Newest lastmod (ISO) of each domain, aligned with domains
+  urlDomains: UrlDomainPair[]; // Every extracted URL, in file order
+  diagnostics?: SourceDiagnostics;
+  error?: string;
+  cacheHit?: boolean; // Domains were read from the on-disk cache
+}
+
+export interface CachedSitemapUrls {
+  urls: SitemapUrl[];
+  childSitemaps: string[];
+}
+
+export interface CachedDomainExtraction {
+  childSitemaps: string[];
+  totalUrls: number;
+  domains: string[]; // In the order they were first seen in the file
+  domainUrls: string[]; // First URL each domain was found at, aligned with domains
+  domainLastmods: (string | null)[]; // Newest lastmod (ISO) of each domain, aligned with domains
+  urlDomains: UrlDomainPair[]; // Every extracted URL, in file order
+  ignoredUrls: Omit<IgnoredUrl, "file">[]; // The file is the one being looked up
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
 }
 
 export interface Domain {
-  full: string;
+  full: string; // Raw domain exactly as it appeared in the URL
+  name: string; // Canonical domain used for all comparisons
+}
+
+export type IgnoreReason =
+  | "invalid_url" // The URL could not be parsed
+  | "rejected_segment" // A source pattern captured a rejected segment (e.g. /s/all)
+  | "non_domain_segment" // A source pattern captured a segment without a dot
+  | "non_merchant_page" // A source reject pattern matched (e.g. goodsearch /coupons/<category>)
+  | "no_domain_segment" // No path segment looks like a domain
+  | "no_hostname_fallback" // Root URL of a host that can't be used as the domain
+  | "empty_domain"; // The domain was empty after normalization
+
+export type DomainExtraction =
+  | { domain: Domain; reason?: undefined }
+  | { domain: null; reason: IgnoreReason };
+
+export interface IgnoredUrl {
+  url: string;
+  reason: IgnoreReason;
+  file: string;
+}
+
+// How one sitemap file of a source went
+export interface FileDiagnostics {
+  file: string;
+  totalUrls: number;
+  extractedUrls: number;
+  error?: string; // Why the file couldn't be read or parsed
+}
+
+export interface SourceDiagnostics {
+  sourceName: string;
+  totalUrls: number;
+  extractedUrls: number;
+  ignoredUrls: IgnoredUrl[];
+  files: FileDiagnostics[]; // Top-level sitemap files, in processing order
+}
+
+export type ValidationCheck =
+  | "no_files" // The source has no sitemap files
+  | "malformed_xml" // A file couldn't be read or isn't well-formed XML
+  | "empty_file" // A file parsed but holds no URLs
+  | "low_extraction_rate"; // Too few of the source's URLs yielded a domain
+
+export interface ValidationProblem {
+  sourceName: string;
+  file: string | null; // null for problems of the whole source
+  check: ValidationCheck;
+  message: string;
+}
+
+export interface ValidationReport {
+  createdAt: string; // ISO timestamp
+  strict: boolean; // Whether --strict made the problems fatal
+  minExtractionRate: number; // Lowest accepted share (%) of URLs yielding a domain
+  sourceCount: number;
+  fileCount: number;
+  problems: ValidationProblem[];
+}
+
+export interface SourceExtractionSummary {
+  sourceName: string;
+  totalUrls: number;
+  extractedUrls: number;
+  ignoredUrls: number;
+  ignoredPercentage: number;
+  uniqueDomains: number;
+  ignoredByReason: Partial<Record<IgnoreReason, number>>;
+}
+
+export interface SitemapSource {
+  name: string;
+  path: string; // A sitemap file, a directory of sitemap files, or the first config glob
+  isDirectory: boolean;
+  files?: string[]; // Sitemap files of the source, used instead of path when set
+  rules?: ExtractionRuleSet; // Extraction rules of this source's URLs
+}
+
+export type SourceRole = "baseline" | "competitor" | "scraped";
+
+// One source of merchantcomparison.config.json
+export interface SourceConfig {
   name: string;
+  globs: string[]; // Relative to the config file
+  role: SourceRole;
+  extractionRules?: ExtractionRule; // Merged over the default rules
+  enabled?: boolean; // Defaults to true
+}
+
+export interface ProjectConfig {
+  sources: SourceConfig[];
+}
+
+export interface ProjectSources {
+  baselineName: string; // Baseline unless --baseline picks another source
+  sources: SitemapSource[]; // Baseline first, then the competitors
+}
+
+export interface BaselineNaming {
+  domainsCountField: string; // JSON field holding the baseline's domain count
+  brandsCountField: string; // JSON field holding the baseline's brand count
+  onlyDomainsCountField: string; // JSON field holding the baseline-only domain count
+  locColumn: string; // CSV column holding the matching baseline URL
+  brandLocColumn: string; // CSV column holding a baseline URL of the same brand
+}
+
+export type BrandAliasTable = Record<string, string[]>; // Brand -> domains that belong to it
+
+export interface BrandOverlap {
+  totalBrands: number;
+  overlappingBrands: number;
+  overlapPercentage: number; // Share of the competitor's brands the baseline also lists
+  baselineCoveragePercentage: number; // Share of the baseline's brands the competitor also lists
+}
+
+export interface MerchantWeights {
+  weights: Map<string, number>; // Canonical domain -> weight
+  defaultWeight: number; // Weight of domains missing from the list
+}
+
+export interface WeightedOverlap {
+  totalWeight: number; // Summed weight of the competitor's domains
+  overlappingWeight: number; // Weight of the competitor's domains the baseline also lists
+  weightedOverlapPercentage: number; // Share of the competitor's weight the baseline covers
+  missingWeight: number; // Weight of the competitor's domains the baseline lacks
+  defaultWeightedDomains: number; // Competitor domains missing from the weight list
+}
+
+export type CategoryMap = Map<string, string>; // Canonical domain -> category
+
+export interface CategoryOverlap {
+  category: string;
+  totalDomains: number; // The competitor's domains in the category
+  baselineDomains: number; // The baseline's domains in the category
+  overlappingDomains: number;
+  overlapPercentage: number; // Share of the competitor's category domains the baseline also lists
+  baselineCoveragePercentage: number; // Share of the baseline's category domains the competitor also lists
 }
 
 export interface CompetitorOverlap {
   competitorName: string;
   totalDomains: number;
   overlappingDomains: number;
-  overlapPercentage: number;
+  overlapPercentage: number; // Share of the competitor's domains the baseline also lists
+  baselineCoveragePercentage: number; // Share of the baseline's domains the competitor also lists
+  jaccardSimilarity: number; // Overlap divided by the union of both sets (0-1)
+  competitorOnlyDomains: number; // Listed by the competitor but not the baseline
+  baselineOnlyDomains: number; // Listed by the baseline but not the competitor
+  brandLevel?: BrandOverlap; // Only with brand matching enabled
+  weighted?: WeightedOverlap; // Only with a merchant weight list
+  categoryLevel?: CategoryOverlap[]; // Only with a category mapping file
+}
+
+export interface OverlapMatrix {
+  sources: string[]; // Row and column order, baseline first
+  domainCounts: number[]; // Domains listed by each source
+  counts: number[][]; // counts[row][column]: domains listed by both sources
+  percentages: number[][]; // Share of the row source's domains also listed by the column source
+}
+
+export interface SourceIntersection {
+  sources: string[]; // The exact set of sources listing these domains
+  domainCount: number;
+  domains: string[]; // Sorted alphabetically
+}
+
+export interface IntersectionAnalysis {
+  sources: string[];
+  totalDomains: number; // Distinct domains across all sources
+  intersections: SourceIntersection[]; // Ranked by domain count, largest first
+}
+
+export interface MerchantGap {
+  domain: string;
+  competitorCount: number; // Competitors listing the domain
+  competitors: string[];
+  sampleUrls: Record<string, string>; // Competitor -> a URL of theirs for the domain
+}
+
+// The reports drawn from an analysis next to the overlap results
+export interface AnalysisReports {
+  overlapMatrix: OverlapMatrix; // Every source against every other source
+  intersections: IntersectionAnalysis;
+  merchantGaps: MerchantGap[]; // Competitor domains the baseline lacks
+  uniqueDomains: string[]; // Baseline domains no competitor lists
+  freshness: FreshnessReport;
+}
+
+// Where writeAnalysisReports saved each output
+export interface AnalysisReportPaths {
+  diagnosticsDir: string; // One ignored-URL CSV per source
+  model: string;
+  results: string;
+  categoryOverlap?: string; // Only with a category mapping file
+  overlapMatrix: string; // The JSON; the CSV sits next to it
+  intersections: string;
+  merchantGaps: string; // The JSON; the CSV sits next to it
+  uniqueDomains: string; // The JSON; the CSV sits next to it
+  freshness: string; // The JSON; the CSV sits next to it
 }
 
+export type OverlapSortMetric =
+  | "overlapPercentage"
+  | "baselineCoveragePercentage"
+  | "jaccardSimilarity"
+  | "competitorOnlyDomains"
+  | "baselineOnlyDomains";
+
 export interface AnalysisResult {
-  dealsptrDomains: Set<string>;
-  competitorResults: CompetitorOverlap[];
+  baselineName: string;
+  baselineDomains: Set<string>;
+  competitorDomains: Map<string, Set<string>>; // In the order of the given competitors
+  competitorResults: CompetitorOverlap[]; // In the sortBy order
+  diagnostics: Map<string, SourceDiagnostics>; // Per source, baseline first
+  // Newest lastmod of each domain per source, null when none of its pages has one
+  lastmods: Map<string, Map<string, Date | null>>;
+  model: AnalysisModel; // What the CSV and chart renderers draw from
+}
+
+export interface OverlapResults {
+  baselineDomainsCount: number;
+  baselineBrandsCount?: number; // Only with brand matching enabled
+  merchantWeights?: {
+    file?: string; // Absent when the weights didn't come from a file
+    weightedDomains: number;
+    defaultWeight: number;
+  }; // Only with a merchant weight list
+  competitors: CompetitorOverlap[]; // In the --sort-by order
+  extractionSummary: SourceExtractionSummary[];
+}
+
+export interface AnalysisRunMetadata {
+  createdAt: string; // ISO timestamp
+  baselineName: string;
+  registrableDomain: boolean; // Whether --registrable-domain was used
+  brandMatching: boolean; // Whether --brand-matching was used
+  sortBy: OverlapSortMetric;
+  sources: { name: string; files: string[] }[]; // Sitemap files read, baseline first
+}
+
+// Everything an analyze run found, which the CSV and chart stages render
+export interface AnalysisModel {
+  formatVersion: number;
+  metadata: AnalysisRunMetadata;
+  baselineUrls: Record<string, string[]>; // Baseline domain -> its URLs, in sitemap order
+  competitorUrls: Record<string, UrlDomainPair[]>; // Competitor -> every extracted URL
+  results: OverlapResults;
+}
+
+export interface DomainSnapshot {
+  id: string; // Sortable UTC timestamp, e.g. 2026-10-19T08-30-00-123Z
+  createdAt: string; // ISO timestamp
+  baselineName: string;
+  registrableDomain: boolean; // Whether --registrable-domain was used
+  domains: Record<string, string[]>; // Source -> sorted domains, baseline first
+  competitors: CompetitorOverlap[];
+}
+
+export interface SourceDiff {
+  sourceName: string;
+  previousDomainCount: number;
+  currentDomainCount: number;
+  addedDomains: string[]; // Listed now but not in the earlier snapshot, sorted
+  removedDomains: string[]; // Listed in the earlier snapshot only, sorted
+}
+
+export interface CompetitorDiff extends SourceDiff {
+  // null when the competitor is missing from one of the snapshots
+  previousOverlapPercentage: number | null;
+  currentOverlapPercentage: number | null;
+  overlapPercentageChange: number | null;
+}
+
+export interface SnapshotDiff {
+  fromSnapshot: string;
+  toSnapshot: string;
+  baseline: SourceDiff;
+  competitors: CompetitorDiff[];
+}
+
+export interface FreshnessSummary {
+  merchantCount: number;
+  withLastmodCount: number; // Merchants with at least one page carrying a lastmod
+  medianAgeDays: number | null;
+  // Share (%) of the merchants with a lastmod not modified in more than N
+  // days; null when none of them has a lastmod
+  staleShares: Record<string, number | null>;
+}
+
+export interface CompetitorFreshness extends FreshnessSummary {
+  competitorName: string;
+  newestLastmod: string | null;
+  oldestLastmod: string | null;
+  distribution: Record<string, number>; // YYYY-MM -> merchants last modified that month
+  overlapping: FreshnessSummary; // Merchants the baseline also lists
+  nonOverlapping: FreshnessSummary;
+}
+
+export interface FreshnessReport {
+  asOf: string; // Date the ages are measured from
+  staleThresholdsDays: number[];
+  competitors: CompetitorFreshness[];
 }
@@ -0,0 +1,170 @@
+import fs from "fs-extra";
+import path from "path";
+import { logger } from "./logger";
+import {
+  AnalysisResult,
+  SourceDiagnostics,
+  ValidationProblem,
+  ValidationReport,
+} from "./types";
+
+// Lowest share (%) of a source's URLs that must yield a domain; every
+// current source is far above it, so falling below means the sitemaps or the
+// extraction rules changed shape
+export const DEFAULT_MIN_EXTRACTION_RATE = 50;
+
+/**
+ * Reads the `--min-extraction-rate <percent>` command line flag
+ */
+export function parseMinExtractionRateArg(args: string[]): number {
+  if (!args.includes("--min-extraction-rate")) {
+    return DEFAULT_MIN_EXTRACTION_RATE;
+  }
+
+  const value = args[args.indexOf("--min-extraction-rate") + 1];
+  const rate = Number(value);
+  if (value === undefined || !isFinite(rate) || rate < 0 || rate > 100) {
+    logger.warn(
+      `Unknown --min-extraction-rate value "${value}", using ${DEFAULT_MIN_EXTRACTION_RATE}`
+    );
+    return DEFAULT_MIN_EXTRACTION_RATE;
+  }
+  return rate;
+}
+
+/**
+ * Checks every source and its sitemap files: each source needs files, each
+ * file must parse and hold URLs, and at least minExtractionRate percent of a
+ * source's URLs must yield a domain
+ */
+export function validateSources(
+  diagnostics: Iterable<SourceDiagnostics>,
+  minExtractionRate: number = DEFAULT_MIN_EXTRACTION_RATE
+): ValidationProblem[] {
+  const problems: ValidationProblem[] = [];
+
+  for (const source of diagnostics) {
+    const { sourceName } = source;
+    if (source.files.length === 0) {
+      problems.push({
+        sourceName,
+        file: null,
+        check: "no_files",
+        message: "No sitemap files found",
+      });
+      continue;
+    }
+
+    for (const file of source.files) {
+      if (file.error !== undefined) {
+        problems.push({
+          sourceName,
+          file: file.file,
+          check: "malformed_xml",
+          message: `Could not be parsed: ${file.error.split("\n")[0]}`,
+        });
+      } else if (file.totalUrls === 0) {
+        problems.push({
+          sourceName,
+          file: file.file,
+          check: "empty_file",
+          message: "Holds no URLs",
+        });
+      }
+    }
+
+    if (source.totalUrls > 0) {
+      const extractionRate = (source.extractedUrls / source.totalUrls) * 100;
+      if (extractionRate < minExtractionRate) {
+        problems.push({
+          sourceName,
+          file: null,
+          check: "low_extraction_rate",
+          message: `Only ${extractionRate.toFixed(2)}% of ${
+            source.totalUrls
+          } URLs yielded a domain (minimum ${minExtractionRate}%)`,
+        });
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validates the sources of an analysis into a report
+ */
+export function buildValidationReport(
+  diagnostics: Map<string, SourceDiagnostics>,
+  strict: boolean,
+  minExtractionRate: number = DEFAULT_MIN_EXTRACTION_RATE
+): ValidationReport {
+  const sources = [...diagnostics.values()];
+  return {
+    createdAt: new Date().toISOString(),
+    strict,
+    minExtractionRate,
+    sourceCount: sources.length,
+    fileCount: sources.reduce(
+      (count, source) => count + source.files.length,
+      0
+    ),
+    problems: validateSources(sources, minExtractionRate),
+  };
+}
+
+/**
+ * Formats the problems of a report, one per line
+ */
+export function formatValidationProblems(report: ValidationReport): string {
+  return report.problems
+    .map(
+      (problem) =>
+        `  - ${problem.sourceName}${
+          problem.file ? ` (${problem.file})` : ""
+        }: ${problem.message}`
+    )
+    .join("\n");
+}
+
+/**
+ * Saves the report to <outputDir>/validation-report.json, returning its path
+ */
+export async function writeValidationReport(
+  report: ValidationReport,
+  outputDir: string
+): Promise<string> {
+  const reportPath = path.join(outputDir, "validation-report.json");
+  await fs.ensureDir(outputDir);
+  await fs.writeJSON(reportPath, report, { spaces: 2 });
+  return reportPath;
+}
+
+/**
+ * Validates the sources of an analysis and saves the report to
+ * <outputDir>/validation-report.json. In strict mode any problem throws, so
+ * a run can stop before writing results from broken inputs.
+ */
+export async function validateAnalysis(
+  result: AnalysisResult,
+  outputDir: string,
+  strict: boolean = false,
+  minExtractionRate: number = DEFAULT_MIN_EXTRACTION_RATE
+): Promise<{ report: ValidationReport; reportPath: string }> {
+  const report = buildValidationReport(
+    result.diagnostics,
+    strict,
+    minExtractionRate
+  );
+  const reportPath = await writeValidationReport(report, outputDir);
+  if (strict && report.problems.length > 0) {
+    throw new Error(
+      `${
+        report.problems.length
+      } input validation problems (see ${reportPath}):\n${formatValidationProblems(
+        report
+      )}`
+    );
+  }
+  return { report, reportPath };
+}
@@ -0,0 +1,106 @@
+import os from "os";
+import { Worker } from "worker_threads";
+import { loggerOptions } from "./logger";
+
+/**
+ * Default number of worker threads: leave one core for the main thread
+ */
+export function defaultConcurrency(): number {
+  return Math.max(1, os.cpus().length - 1);
+}
+
+/**
+ * Resolves a requested concurrency level, falling back to the default
+ */
+export function resolveConcurrency(requested?: number): number {
+  if (requested !== undefined && Number.isFinite(requested) && requested >= 1) {
+    return Math.floor(requested);
+  }
+  return defaultConcurrency();
+}
+
+/**
+ * Reads the `--concurrency <n>` command line flag
+ */
+export function parseConcurrencyArg(args: string[]): number | undefined {
+  if (!args.includes("--concurrency")) return undefined;
+  const value = parseInt(args[args.indexOf("--concurrency") + 1]);
+  return Number.isNaN(value) ? undefined : value;
+}
+
+/**
+ * Starts a worker, registering ts-node when running from the TypeScript sources.
+ * The worker receives the logger settings of the main thread as its workerData.
+ */
+function createWorker(workerFile: string): Worker {
+  return new Worker(workerFile, {
+    execArgv: workerFile.endsWith(".ts")
+      ? ["--require", "ts-node/register/transpile-only"]
+      : [],
+    workerData: loggerOptions(),
+  });
+}
+
+/**
+ * Sends a single task to a worker and waits for its reply
+ */
+function runTask<TTask, TResult>(
+  worker: Worker,
+  task: TTask
+): Promise<TResult> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      worker.off("message", onMessage);
+      worker.off("error", onError);
+      worker.off("exit", onExit);
+    };
+    const onMessage = (result: TResult) => {
+      cleanup();
+      resolve(result);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onExit = (code: number) => {
+      cleanup();
+      reject(new Error(`Worker exited unexpectedly with code ${code}`));
+    };
+
+    worker.on("message", onMessage);
+    worker.on("error", onError);
+    worker.on("exit", onExit);
+    worker.postMessage(task);
+  });
+}
+
+/**
+ * Runs tasks across a pool of worker threads. Results are returned in task
+ * order regardless of which worker finished first, so callers can merge them
+ * deterministically.
+ */
+export async function runWorkerPool<TTask, TResult>(
+  workerFile: string,
+  tasks: TTask[],
+  concurrency: number
+): Promise<TResult[]> {
+  const results = new Array<TResult>(tasks.length);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    const worker = createWorker(workerFile);
+    try {
+      while (nextIndex < tasks.length) {
+        const index = nextIndex++;
+        results[index] = await runTask<TTask, TResult>(worker, tasks[index]);
+      }
+    } finally {
+      await worker.terminate();
+    }
+  };
+
+  const workerCount = Math.min(concurrency, tasks.length);
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  return results;
+}
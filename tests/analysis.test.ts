@@ -0,0 +1,79 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { analyze } from "../src/analysis";
+
+const fixturesDir = path.join(__dirname, "fixtures", "sitemaps");
+
+describe("analyze", () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "analyze-"));
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(workDir);
+  });
+
+  it("compares the baseline with every competitor without writing files", async () => {
+    const competitorPath = path.join(workDir, "couponfollow.com.xml");
+    await fs.writeFile(
+      competitorPath,
+      "<urlset>" +
+        "<url><loc>https://couponfollow.com/site/gap.com</loc></url>" +
+        "<url><loc>https://couponfollow.com/site/nike.com</loc></url>" +
+        "<url><loc>https://couponfollow.com/site/gap.com/jeans</loc></url>" +
+        "</urlset>"
+    );
+
+    const result = await analyze({
+      baseline: {
+        name: "goodshop.com",
+        path: path.join(fixturesDir, "urlset.xml"),
+        isDirectory: false,
+      },
+      competitors: [
+        { name: "couponfollow.com", path: competitorPath, isDirectory: false },
+      ],
+      options: { cache: false, concurrency: 1 },
+    });
+
+    expect(result.baselineDomains).toEqual(
+      new Set(["gap.com", "vistaprint.com"])
+    );
+    expect(result.competitorDomains.get("couponfollow.com")).toEqual(
+      new Set(["gap.com", "nike.com"])
+    );
+    expect(result.competitorResults).toMatchObject([
+      {
+        competitorName: "couponfollow.com",
+        totalDomains: 2,
+        overlappingDomains: 1,
+        overlapPercentage: 50,
+      },
+    ]);
+    expect(result.diagnostics.get("goodshop.com")?.ignoredUrls).toHaveLength(1);
+
+    expect(result.model.metadata).toMatchObject({
+      baselineName: "goodshop.com",
+      registrableDomain: false,
+      brandMatching: false,
+      sources: [
+        { name: "goodshop.com", files: [path.join(fixturesDir, "urlset.xml")] },
+        { name: "couponfollow.com", files: [competitorPath] },
+      ],
+    });
+    expect(result.model.baselineUrls["gap.com"]).toEqual([
+      "https://www.goodshop.com/coupons/gap.com",
+    ]);
+    expect(result.model.competitorUrls["couponfollow.com"]).toHaveLength(3);
+    expect(result.model.results).toMatchObject({
+      baselineDomainsCount: 2,
+      competitors: result.competitorResults,
+    });
+    expect(await fs.readdir(workDir)).toEqual(["couponfollow.com.xml"]);
+  });
+});
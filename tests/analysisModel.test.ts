@@ -0,0 +1,144 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import {
+  ANALYSIS_MODEL_FORMAT_VERSION,
+  analysisModelPath,
+  groupUrlsByDomain,
+  readAnalysisModel,
+  writeAnalysisModel,
+  writeOverlapResults,
+} from "../src/analysisModel";
+import { calculateOverlap } from "../src/comparison";
+import { runCsv } from "../src/generateCSV";
+import { baselineNaming } from "../src/sources";
+import { AnalysisModel } from "../src/types";
+
+const baselineUrls = groupUrlsByDomain([
+  ["https://dealspotr.com/promo-codes/gap.com", "gap.com"],
+  ["https://dealspotr.com/promo-codes/nike.com", "nike.com"],
+  ["https://dealspotr.com/promo-codes/gap.com/jeans", "gap.com"],
+]);
+
+const model: AnalysisModel = {
+  formatVersion: ANALYSIS_MODEL_FORMAT_VERSION,
+  metadata: {
+    createdAt: "2026-10-19T08:30:00.000Z",
+    baselineName: "DealsPotr",
+    registrableDomain: false,
+    brandMatching: false,
+    sortBy: "overlapPercentage",
+    sources: [
+      { name: "DealsPotr", files: ["dealspotr/merchant-promo-codes-1.xml"] },
+      { name: "rakuten.com", files: ["competitors/rakuten.com.xml"] },
+    ],
+  },
+  baselineUrls,
+  competitorUrls: {
+    "rakuten.com": [
+      ["https://www.rakuten.com/gap.com", "gap.com"],
+      ["https://www.rakuten.com/ebay.com", "ebay.com"],
+    ],
+  },
+  results: {
+    baselineDomainsCount: 2,
+    competitors: [
+      {
+        ...calculateOverlap(
+          new Set(["gap.com", "nike.com"]),
+          new Set(["gap.com", "ebay.com"])
+        ),
+        competitorName: "rakuten.com",
+      },
+    ],
+    extractionSummary: [],
+  },
+};
+
+describe("groupUrlsByDomain", () => {
+  it("keeps every URL of a domain in sitemap order", () => {
+    expect(baselineUrls).toEqual({
+      "gap.com": [
+        "https://dealspotr.com/promo-codes/gap.com",
+        "https://dealspotr.com/promo-codes/gap.com/jeans",
+      ],
+      "nike.com": ["https://dealspotr.com/promo-codes/nike.com"],
+    });
+  });
+});
+
+describe("analysis model files", () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "analysis-model-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(outputDir);
+  });
+
+  it("reads back the saved model", async () => {
+    expect(await writeAnalysisModel(model, outputDir)).toBe(
+      analysisModelPath(outputDir)
+    );
+    expect(await readAnalysisModel(outputDir)).toEqual(model);
+  });
+
+  it("asks for an analysis run without a usable model", async () => {
+    await expect(readAnalysisModel(outputDir)).rejects.toThrow(
+      "run the analysis first"
+    );
+
+    await fs.writeFile(
+      analysisModelPath(outputDir),
+      zlib.gzipSync(JSON.stringify({ ...model, formatVersion: 0 }))
+    );
+    await expect(readAnalysisModel(outputDir)).rejects.toThrow(
+      "outdated format"
+    );
+  });
+
+  it("writes the results under the baseline's field names", async () => {
+    const resultsPath = await writeOverlapResults(
+      model,
+      baselineNaming("DealsPotr", true),
+      outputDir
+    );
+
+    expect(await fs.readJSON(resultsPath)).toEqual({
+      baselineName: "DealsPotr",
+      dealsptrDomainsCount: 2,
+      competitors: model.results.competitors,
+      extractionSummary: [],
+    });
+  });
+
+  it("renders the competitor CSVs from the model", async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "time").mockImplementation(() => {});
+    jest.spyOn(console, "timeEnd").mockImplementation(() => {});
+    await writeAnalysisModel(model, outputDir);
+
+    try {
+      await runCsv(["--output-dir", outputDir]);
+      await expect(
+        runCsv(["--output-dir", outputDir, "--baseline", "rakuten"])
+      ).rejects.toThrow("compares against DealsPotr");
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    expect(
+      await fs.readFile(
+        path.join(outputDir, "csv-output", "rakuten.com-comparison.csv"),
+        "utf8"
+      )
+    ).toBe(
+      "URL,Match_Status,domain,dealspotr loc\n" +
+        "https://www.rakuten.com/gap.com,Matched,gap.com,https://dealspotr.com/promo-codes/gap.com\n" +
+        "https://www.rakuten.com/ebay.com,Not Matched,ebay.com,\n"
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  brandLabel,
+  createBrandResolver,
+  toBrandSet,
+} from "../src/brandResolver";
+import { compareAllCompetitors } from "../src/comparison";
+
+describe("brandLabel", () => {
+  it.each([
+    ["nike.com", "nike"],
+    ["nike.co.uk", "nike"],
+    ["shop.nike.de", "nike"],
+    ["1800emartcom.square.site", "1800emartcom"],
+    ["localhost", "localhost"],
+  ])("%s -> %s", (domain, expected) => {
+    expect(brandLabel(domain)).toBe(expected);
+  });
+});
+
+describe("createBrandResolver", () => {
+  it("applies the alias table before falling back to labels", () => {
+    const resolveBrand = createBrandResolver({
+      nike: ["nikestore.com", "WWW.Converse.com"],
+    });
+
+    expect(resolveBrand("nikestore.com")).toBe("nike");
+    expect(resolveBrand("converse.com")).toBe("nike");
+    expect(resolveBrand("nike.co.uk")).toBe("nike");
+    expect(resolveBrand("adidas.de")).toBe("adidas");
+  });
+
+  it("checks in nikestore.com as a Nike domain", () => {
+    expect(createBrandResolver()("nikestore.com")).toBe("nike");
+  });
+});
+
+describe("brand-level overlap", () => {
+  it("reports brand overlap next to exact-domain overlap", () => {
+    const resolveBrand = createBrandResolver({});
+    const [result] = compareAllCompetitors(
+      new Set(["nike.com", "gap.com"]),
+      new Map([["rakuten", new Set(["nike.co.uk", "gap.com", "x.com"])]]),
+      { resolveBrand }
+    );
+
+    expect(result.overlappingDomains).toBe(1);
+    expect(result.brandLevel).toEqual({
+      totalBrands: 3,
+      overlappingBrands: 2,
+      overlapPercentage: 66.67,
+      baselineCoveragePercentage: 100,
+    });
+    expect(toBrandSet(new Set(["nike.com", "nike.fr"]), resolveBrand)).toEqual(
+      new Set(["nike"])
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  UNCATEGORIZED,
+  compareCategories,
+  groupByCategory,
+  parseCategoryMap,
+} from "../src/categories";
+
+describe("parseCategoryMap", () => {
+  it("reads normalized domains and their category", () => {
+    const categoryMap = parseCategoryMap(
+      [
+        "Category,Domain",
+        "Travel,WWW.Expedia.com",
+        '"Home, Garden",wayfair.com',
+        "Fashion,",
+      ].join("\r\n")
+    );
+
+    expect(categoryMap).toEqual(
+      new Map([
+        ["expedia.com", "Travel"],
+        ["wayfair.com", "Home, Garden"],
+      ])
+    );
+  });
+});
+
+describe("groupByCategory", () => {
+  it("puts unmapped domains in the uncategorized bucket", () => {
+    expect(
+      groupByCategory(
+        new Set(["expedia.com", "x.com"]),
+        new Map([["expedia.com", "Travel"]])
+      )
+    ).toEqual(
+      new Map([
+        ["Travel", new Set(["expedia.com"])],
+        [UNCATEGORIZED, new Set(["x.com"])],
+      ])
+    );
+  });
+
+  it("orders categories by name with the uncategorized bucket last", () => {
+    expect(
+      [UNCATEGORIZED, "Travel", "Zoo", "Fashion"].sort(compareCategories)
+    ).toEqual(["Fashion", "Travel", "Zoo", UNCATEGORIZED]);
+  });
+});
@@ -0,0 +1,111 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import {
+  COMMANDS,
+  EXIT_FAILURE,
+  EXIT_OK,
+  EXIT_USAGE,
+  formatHelp,
+  runCli,
+} from "../src/cli";
+import {
+  dealspotrSource,
+  parseExtractionArgs,
+  parsePathArgs,
+  scrapeStatePath,
+} from "../src/cliOptions";
+import { DEALSPOTR_SOURCE } from "../src/sources";
+
+describe("parsePathArgs", () => {
+  it("defaults to the repository layout", () => {
+    const paths = parsePathArgs([]);
+    expect(paths).toEqual({
+      dealspotrDir: "dealspotr",
+      competitorsDir: "competitors",
+      outputDir: "output",
+      testMode: false,
+    });
+    expect(dealspotrSource(paths)).toBe(DEALSPOTR_SOURCE);
+    expect(scrapeStatePath(paths)).toBe(
+      path.join("output", "scrape-state.json")
+    );
+  });
+
+  it("reads the directory and test mode flags", () => {
+    const paths = parsePathArgs([
+      "--dealspotr-dir",
+      "data/dealspotr",
+      "--competitors-dir",
+      "data/competitors",
+      "--output-dir",
+      "results",
+      "--test",
+    ]);
+    expect(dealspotrSource(paths)).toEqual({
+      ...DEALSPOTR_SOURCE,
+      path: "data/dealspotr",
+    });
+    expect(paths.competitorsDir).toBe("data/competitors");
+    expect(scrapeStatePath(paths)).toBe(
+      path.join("results", "test-scrape-state.json")
+    );
+  });
+});
+
+describe("parseExtractionArgs", () => {
+  it("reads the extraction flags with the cache in the output directory", () => {
+    const args = [
+      "--registrable-domain",
+      "--concurrency",
+      "2",
+      "--no-cache",
+      "--output-dir",
+      "results",
+    ];
+    expect(parseExtractionArgs(args, parsePathArgs(args))).toEqual({
+      registrableDomain: true,
+      concurrency: 2,
+      cache: false,
+      cacheDir: path.join("results", ".cache"),
+    });
+  });
+});
+
+describe("runCli", () => {
+  let log: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+    error = jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("prints the help of every command", async () => {
+    for (const command of COMMANDS) {
+      expect(await runCli([command.name, "--help"])).toBe(EXIT_OK);
+      expect(log).toHaveBeenLastCalledWith(formatHelp(command));
+    }
+  });
+
+  it("fails with a usage error without a known command", async () => {
+    expect(await runCli([])).toBe(EXIT_USAGE);
+    expect(await runCli(["compare"])).toBe(EXIT_USAGE);
+    expect(error).toHaveBeenCalledWith('Unknown command "compare"\n');
+  });
+
+  it("fails when the command fails", async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "cli-"));
+    try {
+      expect(await runCli(["diff", "--output-dir", outputDir])).toBe(
+        EXIT_FAILURE
+      );
+    } finally {
+      await fs.remove(outputDir);
+    }
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  calculateOverlap,
+  calculateWeightedOverlap,
+  compareAllCompetitors,
+  parseSortMetricArg,
+} from "../src/comparison";
+
+const baseline = new Set(["a.com", "b.com", "c.com", "d.com"]);
+
+describe("calculateOverlap", () => {
+  it("reports overlap in both directions", () => {
+    const overlap = calculateOverlap(
+      baseline,
+      new Set(["a.com", "b.com", "x.com"])
+    );
+
+    expect(overlap).toEqual({
+      competitorName: "unknown",
+      totalDomains: 3,
+      overlappingDomains: 2,
+      overlapPercentage: 66.67,
+      baselineCoveragePercentage: 50,
+      jaccardSimilarity: 0.4,
+      competitorOnlyDomains: 1,
+      baselineOnlyDomains: 2,
+    });
+  });
+
+  it("handles empty sets without dividing by zero", () => {
+    const overlap = calculateOverlap(new Set(), new Set());
+
+    expect(overlap.overlapPercentage).toBe(0);
+    expect(overlap.baselineCoveragePercentage).toBe(0);
+    expect(overlap.jaccardSimilarity).toBe(0);
+  });
+});
+
+describe("compareAllCompetitors", () => {
+  const competitorMap = new Map([
+    ["small", new Set(["a.com"])],
+    ["empty", new Set<string>()],
+    ["large", new Set(["a.com", "b.com", "c.com", "x.com", "y.com"])],
+  ]);
+
+  it("sorts by overlap percentage by default, empty competitors last", () => {
+    const names = compareAllCompetitors(baseline, competitorMap).map(
+      (result) => result.competitorName
+    );
+
+    expect(names).toEqual(["small", "large", "empty"]);
+  });
+
+  it("sorts by the chosen metric", () => {
+    const names = compareAllCompetitors(baseline, competitorMap, {
+      sortBy: "baselineCoveragePercentage",
+    }).map((result) => result.competitorName);
+
+    expect(names).toEqual(["large", "small", "empty"]);
+  });
+});
+
+describe("calculateWeightedOverlap", () => {
+  it("weights covered and missing merchants", () => {
+    const merchantWeights = {
+      weights: new Map([
+        ["a.com", 900],
+        ["x.com", 50],
+      ]),
+      defaultWeight: 1,
+    };
+
+    expect(
+      calculateWeightedOverlap(
+        baseline,
+        new Set(["a.com", "b.com", "x.com", "y.com"]),
+        merchantWeights
+      )
+    ).toEqual({
+      totalWeight: 952,
+      overlappingWeight: 901,
+      weightedOverlapPercentage: 94.64,
+      missingWeight: 51,
+      defaultWeightedDomains: 2,
+    });
+  });
+
+  it("is reported by compareAllCompetitors with weights", () => {
+    const [result] = compareAllCompetitors(
+      baseline,
+      new Map([["rakuten", new Set(["x.com"])]]),
+      { merchantWeights: { weights: new Map(), defaultWeight: 0 } }
+    );
+    expect(result.weighted).toEqual({
+      totalWeight: 0,
+      overlappingWeight: 0,
+      weightedOverlapPercentage: 0,
+      missingWeight: 0,
+      defaultWeightedDomains: 1,
+    });
+  });
+});
+
+describe("category overlap", () => {
+  it("breaks the overlap down per category, uncategorized last", () => {
+    const [result] = compareAllCompetitors(
+      baseline,
+      new Map([["rakuten", new Set(["a.com", "b.com", "x.com", "y.com"])]]),
+      {
+        categoryMap: new Map([
+          ["a.com", "Travel"],
+          ["x.com", "Travel"],
+          ["b.com", "Fashion"],
+          ["z.com", "Zoo"],
+        ]),
+      }
+    );
+
+    expect(result.overlapPercentage).toBe(50);
+    expect(result.categoryLevel).toEqual([
+      {
+        category: "Fashion",
+        totalDomains: 1,
+        baselineDomains: 1,
+        overlappingDomains: 1,
+        overlapPercentage: 100,
+        baselineCoveragePercentage: 100,
+      },
+      {
+        category: "Travel",
+        totalDomains: 2,
+        baselineDomains: 1,
+        overlappingDomains: 1,
+        overlapPercentage: 50,
+        baselineCoveragePercentage: 100,
+      },
+      {
+        category: "Uncategorized",
+        totalDomains: 1,
+        baselineDomains: 2,
+        overlappingDomains: 0,
+        overlapPercentage: 0,
+        baselineCoveragePercentage: 0,
+      },
+    ]);
+  });
+});
+
+describe("parseSortMetricArg", () => {
+  it("maps --sort-by values to metrics", () => {
+    expect(parseSortMetricArg(["--sort-by", "jaccard"])).toBe(
+      "jaccardSimilarity"
+    );
+    expect(parseSortMetricArg([])).toBe("overlapPercentage");
+  });
+
+  it("falls back to overlap for unknown values", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(parseSortMetricArg(["--sort-by", "toString"])).toBe(
+      "overlapPercentage"
+    );
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,109 @@
+import { extractDomain, extractDomainWithReason } from "../src/sitemapParser";
+
+describe("extractDomain", () => {
+  // Real URL shapes from the sitemaps in competitors/ and dealspotr/
+  it.each([
+    // dealspotr
+    ["https://dealspotr.com/promo-codes/vaiz.com", "vaiz.com"],
+    ["https://dealspotr.com/promo-codes/clotheshorse", null],
+    // capitaloneshopping.com
+    [
+      "https://capitaloneshopping.com/s/sixpackabs.com/coupon",
+      "sixpackabs.com",
+    ],
+    ["https://capitaloneshopping.com/s/all", null],
+    ["https://capitaloneshopping.com/s/https:/coupon", null],
+    // couponfollow.com
+    [
+      "https://couponfollow.com/site/bigbathroomshop.co.uk",
+      "bigbathroomshop.co.uk",
+    ],
+    ["https://couponfollow.com/site/instacart", null],
+    // givingassistant.org
+    ["https://givingassistant.org/coupon-codes/gap.com", "gap.com"],
+    ["https://givingassistant.org/coupon-codes/quiktrip-inc", null],
+    // goodsearch.com
+    ["https://www.goodsearch.com/coupons/fleo.com", "fleo.com"],
+    ["https://www.goodsearch.com/coupons/crocs", null],
+    ["https://www.goodsearch.com/coupons/eastern-leaf", null],
+    // goodshop.com
+    ["https://www.goodshop.com/coupons/vistaprint.com", "vistaprint.com"],
+    ["https://www.goodshop.com/coupons/big-dog-sportswear", null],
+    // minty.com
+    ["https://minty.com/s/skylum.com", "skylum.com"],
+    ["https://minty.com/about", null],
+    ["https://minty.com", "minty.com"],
+    // rakuten.com
+    ["https://www.rakuten.com/1-800-4clocks.com", "1-800-4clocks.com"],
+    ["https://www.rakuten.com/ebay", null],
+    // retailmenot.com
+    ["https://www.retailmenot.com/view/rue21.com", "rue21.com"],
+    [
+      "https://www.retailmenot.com/view/1800emartcom.square.site",
+      "1800emartcom.square.site",
+    ],
+    ["https://www.retailmenot.com/cashback", null],
+    ["https://www.retailmenot.com", "retailmenot.com"],
+    // savings.com
+    ["https://www.savings.com/coupons/stores/0-9", null],
+    ["https://www.savings.com/coupons/hotel-indigo", null],
+    // simplycodes.com
+    [
+      "https://simplycodes.com/store/us.foursigmatic.com",
+      "us.foursigmatic.com",
+    ],
+    ["https://simplycodes.com/store/vagabond.com-us", "vagabond.com-us"],
+    ["https://simplycodes.com/store/josephjoseph", null],
+    // not a URL at all
+    ["not a url", null],
+  ])("%s -> %s", (url, expected) => {
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+    expect(extractDomain(url)?.name ?? null).toBe(expected);
+    spy.mockRestore();
+  });
+
+  it("keeps the raw domain in full and the canonical domain in name", () => {
+    expect(
+      extractDomain("https://couponfollow.com/site/WWW.Nike.com.")
+    ).toEqual({ full: "WWW.Nike.com.", name: "nike.com" });
+  });
+
+  it("converts internationalized domains to punycode", () => {
+    expect(
+      extractDomain("https://couponfollow.com/site/m%C3%BCnchen.de")?.name
+    ).toBe("xn--mnchen-3ya.de");
+  });
+
+  it("reduces to the registrable domain when asked", () => {
+    const url = "https://simplycodes.com/store/us.foursigmatic.com";
+    expect(extractDomain(url, { registrableDomain: true })?.name).toBe(
+      "foursigmatic.com"
+    );
+  });
+
+  it("keeps stores on shared hosts apart when reducing", () => {
+    const options = { registrableDomain: true };
+    expect(
+      extractDomain("https://couponfollow.com/site/a.myshopify.com", options)
+        ?.name
+    ).toBe("a.myshopify.com");
+    expect(
+      extractDomain(
+        "https://couponfollow.com/site/shop.b.myshopify.com",
+        options
+      )?.name
+    ).toBe("b.myshopify.com");
+  });
+
+  it.each([
+    ["https://capitaloneshopping.com/s/all", "rejected_segment"],
+    ["https://capitaloneshopping.com/s/nike", "non_domain_segment"],
+    ["https://www.goodsearch.com/coupons/crocs", "non_merchant_page"],
+    ["https://www.rakuten.com/ebay", "no_domain_segment"],
+    ["not a url", "invalid_url"],
+  ])("reports why %s was ignored", (url, reason) => {
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+    expect(extractDomainWithReason(url)).toEqual({ domain: null, reason });
+    spy.mockRestore();
+  });
+});
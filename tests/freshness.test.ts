@@ -0,0 +1,82 @@
+import path from "path";
+import { analyze } from "../src/analysis";
+import { buildCompetitorFreshness, summarizeFreshness } from "../src/freshness";
+
+const asOf = new Date("2025-04-01T00:00:00Z");
+const daysAgo = (days: number) =>
+  new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe("analyze", () => {
+  it("keeps the lastmod of each merchant page", async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const { lastmods } = await analyze({
+      baseline: {
+        name: "goodshop.com",
+        path: path.join(__dirname, "fixtures", "sitemaps", "urlset.xml"),
+        isDirectory: false,
+      },
+      competitors: [],
+      options: { cache: false, concurrency: 1 },
+    });
+    jest.restoreAllMocks();
+
+    expect(lastmods.get("goodshop.com")).toEqual(
+      new Map([
+        ["gap.com", new Date("2025-03-17T08:00:24Z")],
+        ["vistaprint.com", new Date("2025-03-16")],
+      ])
+    );
+  });
+});
+
+describe("summarizeFreshness", () => {
+  it("counts stale shares among merchants with a lastmod", () => {
+    const summary = summarizeFreshness(
+      [daysAgo(10), daysAgo(100), daysAgo(200), daysAgo(400), null],
+      asOf
+    );
+
+    expect(summary).toEqual({
+      merchantCount: 5,
+      withLastmodCount: 4,
+      medianAgeDays: 100,
+      staleShares: { 90: 75, 180: 50, 365: 25 },
+    });
+  });
+
+  it("has no median or stale shares without any lastmod", () => {
+    expect(summarizeFreshness([null], asOf)).toEqual({
+      merchantCount: 1,
+      withLastmodCount: 0,
+      medianAgeDays: null,
+      staleShares: { 90: null, 180: null, 365: null },
+    });
+  });
+});
+
+describe("buildCompetitorFreshness", () => {
+  it("splits freshness by merchants the baseline lists", () => {
+    const freshness = buildCompetitorFreshness(
+      "rakuten",
+      new Map([
+        ["a.com", daysAgo(10)],
+        ["b.com", daysAgo(400)],
+        ["c.com", null],
+      ]),
+      new Set(["a.com"]),
+      asOf
+    );
+
+    expect(freshness.competitorName).toBe("rakuten");
+    expect(freshness.newestLastmod).toBe("2025-03-22T00:00:00.000Z");
+    expect(freshness.oldestLastmod).toBe("2024-02-26T00:00:00.000Z");
+    expect(freshness.distribution).toEqual({ "2024-02": 1, "2025-03": 1 });
+    expect(freshness.overlapping.staleShares[365]).toBe(0);
+    expect(freshness.nonOverlapping).toEqual({
+      merchantCount: 2,
+      withLastmodCount: 1,
+      medianAgeDays: 400,
+      staleShares: { 90: 100, 180: 100, 365: 100 },
+    });
+  });
+});
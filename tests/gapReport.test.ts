@@ -0,0 +1,54 @@
+import { buildMerchantGaps } from "../src/gapReport";
+
+describe("buildMerchantGaps", () => {
+  it("ranks domains missing from the baseline by competitor count", () => {
+    const gaps = buildMerchantGaps(
+      new Set(["a.com"]),
+      new Map([
+        ["rakuten", new Set(["a.com", "y.com", "x.com"])],
+        ["retailmenot", new Set(["x.com", "z.com"])],
+      ]),
+      new Map([
+        [
+          "rakuten",
+          new Map([
+            ["a.com", "https://www.rakuten.com/a.com"],
+            ["x.com", "https://www.rakuten.com/x.com"],
+            ["y.com", "https://www.rakuten.com/y.com"],
+          ]),
+        ],
+        [
+          "retailmenot",
+          new Map([
+            ["x.com", "https://www.retailmenot.com/view/x.com"],
+            ["z.com", "https://www.retailmenot.com/view/z.com"],
+          ]),
+        ],
+      ])
+    );
+
+    expect(gaps).toEqual([
+      {
+        domain: "x.com",
+        competitorCount: 2,
+        competitors: ["rakuten", "retailmenot"],
+        sampleUrls: {
+          rakuten: "https://www.rakuten.com/x.com",
+          retailmenot: "https://www.retailmenot.com/view/x.com",
+        },
+      },
+      {
+        domain: "y.com",
+        competitorCount: 1,
+        competitors: ["rakuten"],
+        sampleUrls: { rakuten: "https://www.rakuten.com/y.com" },
+      },
+      {
+        domain: "z.com",
+        competitorCount: 1,
+        competitors: ["retailmenot"],
+        sampleUrls: { retailmenot: "https://www.retailmenot.com/view/z.com" },
+      },
+    ]);
+  });
+});
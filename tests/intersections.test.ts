@@ -0,0 +1,40 @@
+import { buildIntersections } from "../src/intersections";
+
+describe("buildIntersections", () => {
+  it("groups domains by the exact set of sources listing them", () => {
+    const analysis = buildIntersections(
+      new Map([
+        ["baseline", new Set(["a.com", "b.com", "c.com", "d.com"])],
+        ["rakuten", new Set(["b.com", "x.com", "y.com"])],
+        ["capitalone", new Set(["b.com", "c.com", "x.com", "y.com"])],
+      ])
+    );
+
+    expect(analysis).toEqual({
+      sources: ["baseline", "rakuten", "capitalone"],
+      totalDomains: 6,
+      intersections: [
+        {
+          sources: ["baseline"],
+          domainCount: 2,
+          domains: ["a.com", "d.com"],
+        },
+        {
+          sources: ["rakuten", "capitalone"],
+          domainCount: 2,
+          domains: ["x.com", "y.com"],
+        },
+        {
+          sources: ["baseline", "capitalone"],
+          domainCount: 1,
+          domains: ["c.com"],
+        },
+        {
+          sources: ["baseline", "rakuten", "capitalone"],
+          domainCount: 1,
+          domains: ["b.com"],
+        },
+      ],
+    });
+  });
+});
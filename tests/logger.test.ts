@@ -0,0 +1,148 @@
+import {
+  buildLogEvent,
+  configureLogger,
+  formatDuration,
+  formatProgressBar,
+  logger,
+  parseLogArgs,
+} from "../src/logger";
+
+describe("parseLogArgs", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("reads the log format in both flag forms", () => {
+    expect(parseLogArgs(["--log-format=json"])).toEqual({ format: "json" });
+    expect(parseLogArgs(["--log-format", "text"])).toEqual({ format: "text" });
+  });
+
+  it("ignores unknown formats", () => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    expect(parseLogArgs(["--log-format=xml"])).toEqual({});
+  });
+
+  it("reads the quiet and verbose levels", () => {
+    expect(parseLogArgs([])).toEqual({});
+    expect(parseLogArgs(["--quiet"])).toEqual({ level: "warn" });
+    expect(parseLogArgs(["--verbose"])).toEqual({ level: "debug" });
+  });
+});
+
+describe("logger", () => {
+  let log: jest.SpyInstance;
+  let warn: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, "log").mockImplementation(() => {});
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    error = jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    configureLogger({ level: "info", format: "text" });
+    jest.restoreAllMocks();
+  });
+
+  it("prints plain messages in the text format", () => {
+    logger.info("Found 2 domains in knoji.com", {
+      counts: { domains: 2 },
+    });
+    logger.text("----");
+    logger.error("Error processing knoji.xml:", {
+      error: new Error("Unclosed root tag"),
+    });
+
+    expect(log.mock.calls).toEqual([
+      ["Found 2 domains in knoji.com"],
+      ["----"],
+    ]);
+    expect(error).toHaveBeenCalledWith(
+      "Error processing knoji.xml:",
+      "Unclosed root tag"
+    );
+  });
+
+  it("prints one JSON event per line in the json format", () => {
+    configureLogger({ format: "json" });
+
+    logger.info("\nFound 2 domains in knoji.com", {
+      stage: "extract",
+      source: "knoji.com",
+      counts: { domains: 2 },
+    });
+    logger.text("----");
+    logger.warn("No URLs found in empty.xml", { file: "empty.xml" });
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(log.mock.calls[0][0])).toMatchObject({
+      level: "info",
+      message: "Found 2 domains in knoji.com",
+      stage: "extract",
+      source: "knoji.com",
+      counts: { domains: 2 },
+    });
+    expect(JSON.parse(warn.mock.calls[0][0])).toMatchObject({
+      level: "warn",
+      message: "No URLs found in empty.xml",
+      file: "empty.xml",
+    });
+  });
+
+  it("only prints warnings and errors when quiet", () => {
+    configureLogger({ level: "warn" });
+
+    logger.debug("Starting batch scrape...");
+    logger.info("Found 2 domains in knoji.com");
+    logger.text("----");
+    logger.warn("No URLs found in empty.xml");
+
+    expect(log).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith("No URLs found in empty.xml");
+  });
+
+  it("logs the duration of a timed stage", () => {
+    configureLogger({ format: "json" });
+
+    const durationMs = logger.time("Total execution time", {
+      stage: "analyze",
+    })();
+
+    expect(JSON.parse(log.mock.calls[0][0])).toMatchObject({
+      message: `Total execution time: ${formatDuration(durationMs)}`,
+      stage: "analyze",
+      durationMs,
+    });
+  });
+});
+
+describe("buildLogEvent", () => {
+  it("reduces errors to their message", () => {
+    expect(
+      buildLogEvent("error", "Error reading scrape-state.json:", {
+        error: new Error("ENOENT"),
+      })
+    ).toMatchObject({
+      level: "error",
+      message: "Error reading scrape-state.json:",
+      error: "ENOENT",
+    });
+  });
+});
+
+describe("formatDuration", () => {
+  it("formats milliseconds and seconds like console.timeEnd", () => {
+    expect(formatDuration(12.5)).toBe("12.500ms");
+    expect(formatDuration(5607)).toBe("5.607s");
+  });
+});
+
+describe("formatProgressBar", () => {
+  it("fills the bar by the completed share", () => {
+    expect(formatProgressBar(50, 200)).toBe(
+      `[${"#".repeat(8)}${"-".repeat(22)}] 50/200 (25.0%)`
+    );
+    expect(formatProgressBar(0, 0)).toBe(`[${"#".repeat(30)}] 0/0 (100.0%)`);
+  });
+});
@@ -0,0 +1,58 @@
+import { parseMerchantWeights, parseWeightArgs } from "../src/merchantWeights";
+
+describe("parseMerchantWeights", () => {
+  it("reads the weight column keyed by normalized domain", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const { weights, defaultWeight } = parseMerchantWeights(
+      [
+        "Domain,Traffic Rank,Weight",
+        'WWW.Nike.com,12,"1,500.5"',
+        "gap.com,40,200",
+        "shop.gap.com,41,50",
+        "broken.com,1,n/a",
+        "",
+      ].join("\n"),
+      { registrableDomain: true }
+    );
+
+    expect(weights).toEqual(
+      new Map([
+        ["nike.com", 1500.5],
+        ["gap.com", 250],
+      ])
+    );
+    expect(defaultWeight).toBe(0);
+    expect(warn).toHaveBeenCalledWith(
+      "Skipped 1 merchant weight rows without a domain or numeric weight"
+    );
+    warn.mockRestore();
+  });
+
+  it("falls back to the second column, or a requested one", () => {
+    const content = "merchant,gmv,commission\namazon.com,1000,3";
+
+    expect(parseMerchantWeights(content).weights.get("amazon.com")).toBe(1000);
+    expect(
+      parseMerchantWeights(content, { column: "Commission", defaultWeight: 2 })
+    ).toEqual({ weights: new Map([["amazon.com", 3]]), defaultWeight: 2 });
+    expect(() => parseMerchantWeights(content, { column: "rank" })).toThrow(
+      'Weight column "rank" not found'
+    );
+  });
+});
+
+describe("parseWeightArgs", () => {
+  it("reads the weight flags", () => {
+    expect(parseWeightArgs(["--brand-matching"])).toBeNull();
+    expect(
+      parseWeightArgs([
+        "--weights",
+        "weights.csv",
+        "--weight-column",
+        "gmv",
+        "--default-weight",
+        "0.5",
+      ])
+    ).toEqual({ filePath: "weights.csv", column: "gmv", defaultWeight: 0.5 });
+  });
+});
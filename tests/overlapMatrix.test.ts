@@ -0,0 +1,31 @@
+import { buildOverlapMatrix } from "../src/overlapMatrix";
+
+describe("buildOverlapMatrix", () => {
+  it("counts the overlap between every pair of sources", () => {
+    const matrix = buildOverlapMatrix(
+      new Map([
+        ["baseline", new Set(["a.com", "b.com", "c.com", "d.com"])],
+        ["rakuten", new Set(["a.com", "b.com"])],
+        ["retailmenot", new Set(["b.com", "x.com", "y.com"])],
+        ["empty", new Set<string>()],
+      ])
+    );
+
+    expect(matrix).toEqual({
+      sources: ["baseline", "rakuten", "retailmenot", "empty"],
+      domainCounts: [4, 2, 3, 0],
+      counts: [
+        [4, 2, 1, 0],
+        [2, 2, 1, 0],
+        [1, 1, 3, 0],
+        [0, 0, 0, 0],
+      ],
+      percentages: [
+        [100, 50, 25, 0],
+        [100, 100, 50, 0],
+        [33.33, 33.33, 100, 0],
+        [0, 0, 0, 0],
+      ],
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import path from "path";
+import {
+  extractDomainsFromFiles,
+  extractDomainsFromSitemap,
+  findSitemapFiles,
+  parseSitemapFile,
+} from "../src/sitemapParser";
+
+const fixturesDir = path.join(__dirname, "fixtures", "sitemaps");
+const fixture = (name: string) => path.join(fixturesDir, name);
+
+// Always parse the fixtures; the cache has its own tests
+const noCache = { cache: false };
+
+describe("parseSitemapFile", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("parses a standard urlset with its metadata", async () => {
+    const sitemap = await parseSitemapFile(
+      fixture("urlset.xml"),
+      "goodshop",
+      noCache
+    );
+
+    expect(sitemap.sourceName).toBe("goodshop");
+    expect(sitemap.urls).toEqual([
+      {
+        loc: "https://www.goodshop.com/coupons/gap.com",
+        lastmod: "2025-03-17T08:00:24+00:00",
+        changefreq: "daily",
+        priority: "1.0",
+      },
+      {
+        loc: "https://www.goodshop.com/coupons/vistaprint.com",
+        lastmod: "2025-03-16",
+      },
+      { loc: "https://www.goodshop.com/coupons/delias" },
+    ]);
+  });
+
+  it("parses a non-standard <xml> root", async () => {
+    const sitemap = await parseSitemapFile(
+      fixture("xml-root.xml"),
+      "simply",
+      noCache
+    );
+
+    expect(sitemap.urls.map((url) => url.loc)).toEqual([
+      "https://simplycodes.com/store/streamlabs.com",
+      "https://simplycodes.com/store/us.foursigmatic.com",
+    ]);
+    expect(sitemap.urls[1].changefreq).toBe("weekly");
+  });
+
+  it("finds loose <loc> elements anywhere in the document", async () => {
+    const sitemap = await parseSitemapFile(
+      fixture("loose-loc.xml"),
+      "cf",
+      noCache
+    );
+
+    expect(sitemap.urls).toEqual([
+      { loc: "https://couponfollow.com/site/nike.com", priority: "0.9" },
+      { loc: "https://couponfollow.com/site/zazzle.com" },
+    ]);
+  });
+
+  it("falls back to URL-looking text when there are no <loc> elements", async () => {
+    const sitemap = await parseSitemapFile(
+      fixture("regex-only.xml"),
+      "rk",
+      noCache
+    );
+
+    expect(sitemap.urls).toEqual([
+      { loc: "https://www.rakuten.com/123office.com" },
+      { loc: "https://www.rakuten.com/ebay" },
+    ]);
+  });
+
+  it("reads gzip-compressed sitemaps", async () => {
+    const plain = await parseSitemapFile(
+      fixture("urlset.xml"),
+      "plain",
+      noCache
+    );
+    const gzipped = await parseSitemapFile(
+      fixture("urlset-gzipped.xml.gz"),
+      "gzipped",
+      noCache
+    );
+
+    expect(gzipped.urls).toEqual(plain.urls);
+  });
+
+  it("resolves sitemap indexes recursively and stops at cycles", async () => {
+    const sitemap = await parseSitemapFile(
+      fixture("sitemap-index.xml"),
+      "rmn",
+      noCache
+    );
+
+    expect(sitemap.sourceName).toBe("rmn");
+    expect(sitemap.urls.map((url) => url.loc)).toEqual([
+      "https://www.retailmenot.com/view/girlfriend.com",
+      "https://www.retailmenot.com/view/rue21.com",
+      "https://www.retailmenot.com/view/1800emartcom.square.site",
+    ]);
+    expect(sitemap.childSitemaps).toEqual([
+      fixture("sitemap-index/stores-1.xml"),
+      fixture("sitemap-index/stores-2.xml.gz"),
+      fixture("sitemap-index/stores-3.xml"),
+    ]);
+  });
+
+  it("resolves child sitemaps through an explicit mapping", async () => {
+    const sitemap = await parseSitemapFile(
+      fixture("sitemap-index.xml"),
+      "rmn",
+      {
+        ...noCache,
+        childSitemapMap: {
+          "https://www.retailmenot.com/sitemaps/missing.xml":
+            fixture("urlset.xml"),
+        },
+      }
+    );
+
+    expect(sitemap.urls.map((url) => url.loc)).toContain(
+      "https://www.goodshop.com/coupons/gap.com"
+    );
+  });
+
+  it("returns no URLs for a malformed file", async () => {
+    const sitemap = await parseSitemapFile(
+      fixture("malformed.xml"),
+      "broken",
+      noCache
+    );
+
+    expect(sitemap.urls).toEqual([]);
+  });
+});
+
+describe("extractDomainsFromSitemap", () => {
+  it("collects the canonical domains and skips non-merchant URLs", async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const sitemap = await parseSitemapFile(
+      fixture("urlset.xml"),
+      "goodshop",
+      noCache
+    );
+
+    expect([...extractDomainsFromSitemap(sitemap)]).toEqual([
+      "gap.com",
+      "vistaprint.com",
+    ]);
+    jest.restoreAllMocks();
+  });
+});
+
+describe("findSitemapFiles", () => {
+  it("finds both .xml and .xml.gz files recursively", async () => {
+    const files = (await findSitemapFiles(fixturesDir)).map((file) =>
+      path.relative(fixturesDir, file)
+    );
+
+    expect(files.sort()).toEqual([
+      "loose-loc.xml",
+      "malformed.xml",
+      "regex-only.xml",
+      "sitemap-index.xml",
+      path.join("sitemap-index", "stores-1.xml"),
+      path.join("sitemap-index", "stores-2.xml.gz"),
+      path.join("sitemap-index", "stores-3.xml"),
+      "urlset-gzipped.xml.gz",
+      "urlset.xml",
+      "xml-root.xml",
+    ]);
+  });
+});
+
+describe("extractDomainsFromFiles", () => {
+  const files = [
+    "urlset.xml",
+    "xml-root.xml",
+    "loose-loc.xml",
+    "sitemap-index.xml",
+  ].map((name) => ({ filePath: fixture(name), sourceName: name }));
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("returns the same results in input order across worker threads", async () => {
+    const inProcess = await extractDomainsFromFiles(
+      files,
+      { ...noCache, concurrency: 1 },
+      true
+    );
+    const pooled = await extractDomainsFromFiles(
+      files,
+      { ...noCache, concurrency: 2 },
+      true
+    );
+
+    expect(pooled).toEqual(inProcess);
+    expect(inProcess.map((result) => result.domains)).toEqual([
+      ["gap.com", "vistaprint.com"],
+      ["streamlabs.com", "us.foursigmatic.com"],
+      ["nike.com", "zazzle.com"],
+      ["girlfriend.com", "rue21.com", "1800emartcom.square.site"],
+    ]);
+  }, 30000);
+});
@@ -0,0 +1,204 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import {
+  resolveBaselineSources,
+  resolveConfigSources,
+  resolveScrapeStatePath,
+  validateProjectConfig,
+} from "../src/projectConfig";
+import { parsePathArgs } from "../src/cliOptions";
+import { resolveExtractionRule } from "../src/extractionRules";
+import { ProjectConfig } from "../src/types";
+
+const fixturesDir = path.join(__dirname, "fixtures");
+
+const config: ProjectConfig = {
+  sources: [
+    {
+      name: "goodshop.com",
+      globs: ["sitemaps/urlset.xml"],
+      role: "competitor",
+      extractionRules: { knownSegments: ["at"] },
+    },
+    {
+      name: "Stores",
+      globs: ["sitemaps/sitemap-index/*.xml", "sitemaps/sitemap-index/*.gz"],
+      role: "baseline",
+    },
+    {
+      name: "Disabled",
+      globs: ["sitemaps/loose-loc.xml"],
+      role: "competitor",
+      enabled: false,
+    },
+    {
+      name: "DontPayFull",
+      globs: ["state/scrape-state.json"],
+      role: "scraped",
+    },
+  ],
+};
+
+describe("validateProjectConfig", () => {
+  it("accepts a valid config", () => {
+    expect(validateProjectConfig(config)).toBe(config);
+  });
+
+  it("lists schema violations", () => {
+    expect(() =>
+      validateProjectConfig(
+        { sources: [{ name: "a", globs: [], role: "other" }] },
+        "test.json"
+      )
+    ).toThrow(
+      [
+        "Invalid test.json:",
+        "  - /sources/0/globs must NOT have fewer than 1 items",
+        "  - /sources/0/role must be equal to one of the allowed values",
+      ].join("\n")
+    );
+  });
+
+  it("requires one enabled baseline and unique names", () => {
+    expect(() =>
+      validateProjectConfig({
+        sources: [
+          { name: "a", globs: ["a.xml"], role: "competitor" },
+          { name: "a", globs: ["b.xml"], role: "baseline", enabled: false },
+        ],
+      })
+    ).toThrow(
+      /repeats the name "a"\n.*needs exactly one enabled baseline source, found 0/
+    );
+  });
+
+  it("rejects invalid extraction patterns", () => {
+    expect(() =>
+      validateProjectConfig({
+        sources: [
+          {
+            name: "a",
+            globs: ["a.xml"],
+            role: "baseline",
+            extractionRules: { pathPatterns: [{ pattern: "((" }] },
+          },
+        ],
+      })
+    ).toThrow('/sources/0/extractionRules has an invalid pattern "(("');
+  });
+});
+
+describe("resolveConfigSources", () => {
+  it("matches the globs of the enabled sources, baseline first", async () => {
+    const { baselineName, sources } = await resolveConfigSources(
+      config,
+      fixturesDir
+    );
+
+    expect(baselineName).toBe("Stores");
+    expect(sources.map((source) => source.name)).toEqual([
+      "Stores",
+      "goodshop.com",
+    ]);
+    // stores-2.xml.gz is an index merging stores-3.xml
+    expect(sources[0].files).toEqual(
+      ["stores-1.xml", "stores-2.xml.gz"].map((file) =>
+        path.join(fixturesDir, "sitemaps", "sitemap-index", file)
+      )
+    );
+    expect(sources[0].rules).toBeUndefined();
+    expect(
+      resolveExtractionRule("goodshop.com", sources[1].rules).knownSegments
+    ).toEqual(["at"]);
+  });
+});
+
+describe("resolveScrapeStatePath", () => {
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), "config-"));
+    await fs.writeJSON(path.join(configDir, "config.json"), config);
+  });
+
+  afterEach(async () => {
+    await fs.remove(configDir);
+  });
+
+  it("uses the scraped source of the config", async () => {
+    const args = ["--config", path.join(configDir, "config.json")];
+    expect(await resolveScrapeStatePath(parsePathArgs(args))).toBe(
+      path.join(configDir, "state", "scrape-state.json")
+    );
+    expect(
+      await resolveScrapeStatePath(parsePathArgs([...args, "--test"]))
+    ).toBe(path.join(configDir, "state", "test-scrape-state.json"));
+  });
+
+  it("defaults to the output directory", async () => {
+    expect(
+      await resolveScrapeStatePath(
+        parsePathArgs(["--output-dir", "results", "--test"])
+      )
+    ).toBe(path.join("results", "test-scrape-state.json"));
+  });
+
+  it("fails for a missing --config file", async () => {
+    const configFile = path.join(configDir, "missing.json");
+    await expect(
+      resolveScrapeStatePath(parsePathArgs(["--config", configFile]))
+    ).rejects.toThrow(`Config file not found at ${configFile}`);
+  });
+});
+
+describe("resolveBaselineSources", () => {
+  let configFile: string;
+  let warn: jest.SpyInstance;
+
+  beforeEach(async () => {
+    // The globs stay relative to the config file, pointing at the fixtures
+    const configDir = await fs.mkdtemp(path.join(os.tmpdir(), "config-"));
+    const fixturesPath = path.relative(configDir, fixturesDir);
+    configFile = path.join(configDir, "config.json");
+    await fs.writeJSON(configFile, {
+      sources: config.sources.map((source) => ({
+        ...source,
+        globs: source.globs.map((glob) => `${fixturesPath}/${glob}`),
+      })),
+    });
+    warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(path.dirname(configFile));
+  });
+
+  it("picks the baseline of the config unless --baseline is given", async () => {
+    const args = ["--config", configFile];
+    const { baseline, competitors, naming } = await resolveBaselineSources(
+      args,
+      parsePathArgs(args)
+    );
+    expect(baseline.name).toBe("Stores");
+    expect(competitors.map((source) => source.name)).toEqual(["goodshop.com"]);
+    expect(naming.locColumn).toBe("stores loc");
+
+    const picked = await resolveBaselineSources(
+      [...args, "--baseline", "goodshop", "--legacy-field-names"],
+      parsePathArgs(args)
+    );
+    expect(picked.baseline.name).toBe("goodshop.com");
+    expect(picked.naming.locColumn).toBe("dealspotr loc");
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("warns that the directory flags are ignored with a config", async () => {
+    const args = ["--config", configFile, "--competitors-dir", "data"];
+    await resolveBaselineSources(args, parsePathArgs(args));
+    expect(warn).toHaveBeenCalledWith(
+      `Ignoring --competitors-dir: the sources come from ${configFile}, edit their globs there instead`
+    );
+  });
+});
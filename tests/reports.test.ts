@@ -0,0 +1,120 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { analyze } from "../src/analysis";
+import { createSourceDiagnostics } from "../src/diagnostics";
+import { buildAnalysisReports, writeAnalysisReports } from "../src/reports";
+import { baselineNaming } from "../src/sources";
+import { validateAnalysis } from "../src/validation";
+import { AnalysisResult } from "../src/types";
+
+const fixturesDir = path.join(__dirname, "fixtures", "sitemaps");
+
+describe("analysis reports", () => {
+  let workDir: string;
+  let result: AnalysisResult;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "reports-"));
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    result = await analyze({
+      baseline: {
+        name: "goodshop.com",
+        path: path.join(fixturesDir, "urlset.xml"),
+        isDirectory: false,
+      },
+      competitors: [
+        {
+          name: "retailmenot.com",
+          path: path.join(fixturesDir, "sitemap-index.xml"),
+          isDirectory: false,
+        },
+      ],
+      options: { cache: false, concurrency: 1 },
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(workDir);
+  });
+
+  it("builds every report from the analysis", () => {
+    const asOf = new Date("2025-04-01T00:00:00Z");
+    const reports = buildAnalysisReports(result, asOf);
+
+    expect(reports.overlapMatrix.sources).toEqual([
+      "goodshop.com",
+      "retailmenot.com",
+    ]);
+    expect(reports.intersections.sources).toEqual([
+      "goodshop.com",
+      "retailmenot.com",
+    ]);
+    expect(reports.uniqueDomains).toEqual(
+      [...result.baselineDomains].filter(
+        (domain) =>
+          !result.competitorDomains.get("retailmenot.com")!.has(domain)
+      )
+    );
+    expect(reports.merchantGaps.map((gap) => gap.domain).sort()).toEqual(
+      [...result.competitorDomains.get("retailmenot.com")!]
+        .filter((domain) => !result.baselineDomains.has(domain))
+        .sort()
+    );
+    expect(reports.freshness.asOf).toBe(asOf.toISOString());
+    expect(
+      reports.freshness.competitors.map(
+        (competitor) => competitor.competitorName
+      )
+    ).toEqual(["retailmenot.com"]);
+  });
+
+  it("writes the analysis and its reports", async () => {
+    const reports = buildAnalysisReports(result);
+    const paths = await writeAnalysisReports(
+      result,
+      reports,
+      baselineNaming(result.baselineName),
+      workDir
+    );
+
+    expect(paths.categoryOverlap).toBeUndefined();
+    for (const reportPath of [
+      paths.model,
+      paths.results,
+      paths.overlapMatrix,
+      paths.intersections,
+      paths.merchantGaps,
+      paths.uniqueDomains,
+      paths.freshness,
+    ]) {
+      expect(await fs.pathExists(reportPath)).toBe(true);
+    }
+    expect(await fs.readJSON(paths.merchantGaps)).toEqual({
+      gapCount: reports.merchantGaps.length,
+      gaps: reports.merchantGaps,
+    });
+    expect(await fs.readdir(paths.diagnosticsDir)).toEqual([
+      "goodshop.com-ignored.csv",
+      "retailmenot.com-ignored.csv",
+    ]);
+  });
+
+  it("fails validation in strict mode after saving the report", async () => {
+    expect(
+      (await validateAnalysis(result, workDir, true)).report.problems
+    ).toEqual([]);
+
+    result.diagnostics.set("knoji.com", createSourceDiagnostics("knoji.com"));
+    await expect(validateAnalysis(result, workDir, true)).rejects.toThrow(
+      /1 input validation problems/
+    );
+    expect(
+      (await fs.readJSON(path.join(workDir, "validation-report.json"))).problems
+    ).toHaveLength(1);
+  });
+});
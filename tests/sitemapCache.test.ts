@@ -0,0 +1,113 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { DEFAULT_EXTRACTION_RULES } from "../src/extractionRules";
+import { getCacheStats } from "../src/sitemapCache";
+import {
+  extractDomainsFromFiles,
+  parseSitemapFile,
+} from "../src/sitemapParser";
+
+const fixturesDir = path.join(__dirname, "fixtures", "sitemaps");
+
+describe("sitemap cache", () => {
+  let workDir: string;
+  let cacheDir: string;
+  const sitemapPath = (name: string) => path.join(workDir, name);
+
+  beforeEach(async () => {
+    // Work on copies so tests can change sitemap content
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "sitemap-cache-"));
+    cacheDir = path.join(workDir, ".cache");
+    await fs.copy(fixturesDir, workDir);
+
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(workDir);
+  });
+
+  it("reads unchanged sitemaps back from the cache", async () => {
+    const before = getCacheStats();
+    const parsed = await parseSitemapFile(sitemapPath("urlset.xml"), "gs", {
+      cacheDir,
+    });
+    const cached = await parseSitemapFile(sitemapPath("urlset.xml"), "gs", {
+      cacheDir,
+    });
+
+    expect(cached).toEqual(parsed);
+    expect(getCacheStats()).toEqual({
+      hits: before.hits + 1,
+      misses: before.misses + 1,
+    });
+  });
+
+  it("re-parses a sitemap whose content changed", async () => {
+    await parseSitemapFile(sitemapPath("urlset.xml"), "gs", { cacheDir });
+    await fs.copy(sitemapPath("xml-root.xml"), sitemapPath("urlset.xml"));
+
+    const sitemap = await parseSitemapFile(sitemapPath("urlset.xml"), "gs", {
+      cacheDir,
+    });
+
+    expect(sitemap.urls.map((url) => url.loc)).toEqual([
+      "https://simplycodes.com/store/streamlabs.com",
+      "https://simplycodes.com/store/us.foursigmatic.com",
+    ]);
+  });
+
+  it("re-parses a sitemap index when one of its children changed", async () => {
+    const indexPath = sitemapPath("sitemap-index.xml");
+    await parseSitemapFile(indexPath, "rmn", { cacheDir });
+    await fs.writeFile(
+      sitemapPath("sitemap-index/stores-3.xml"),
+      "<urlset><url><loc>https://www.retailmenot.com/view/nike.com</loc></url></urlset>"
+    );
+
+    const sitemap = await parseSitemapFile(indexPath, "rmn", { cacheDir });
+
+    expect(sitemap.urls.map((url) => url.loc)).toContain(
+      "https://www.retailmenot.com/view/nike.com"
+    );
+  });
+
+  it("reuses extracted domains and diagnostics until the rules change", async () => {
+    const files = [{ filePath: sitemapPath("urlset.xml"), sourceName: "gs" }];
+    const [parsed] = await extractDomainsFromFiles(files, { cacheDir }, true);
+    const [cached] = await extractDomainsFromFiles(files, { cacheDir }, true);
+    const [newRules] = await extractDomainsFromFiles(
+      files,
+      { cacheDir, rules: { ...DEFAULT_EXTRACTION_RULES, version: 2 } },
+      true
+    );
+
+    expect(parsed.cacheHit).toBe(false);
+    expect(cached).toEqual({ ...parsed, cacheHit: true });
+    expect(newRules.cacheHit).toBe(false);
+    expect(cached.domains).toEqual(["gap.com", "vistaprint.com"]);
+    expect(cached.urlDomains).toEqual([
+      ["https://www.goodshop.com/coupons/gap.com", "gap.com"],
+      ["https://www.goodshop.com/coupons/vistaprint.com", "vistaprint.com"],
+    ]);
+    expect(cached.diagnostics?.ignoredUrls).toEqual([
+      {
+        url: "https://www.goodshop.com/coupons/delias",
+        reason: "no_domain_segment",
+        file: sitemapPath("urlset.xml"),
+      },
+    ]);
+  });
+
+  it("writes nothing with the cache disabled", async () => {
+    await parseSitemapFile(sitemapPath("urlset.xml"), "gs", {
+      cache: false,
+      cacheDir,
+    });
+
+    expect(await fs.pathExists(cacheDir)).toBe(false);
+  });
+});
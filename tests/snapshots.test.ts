@@ -0,0 +1,239 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { calculateOverlap } from "../src/comparison";
+import { runDiff, selectDiffSnapshots } from "../src/diffSnapshots";
+import {
+  buildSnapshot,
+  diffSnapshots,
+  findSnapshot,
+  listSnapshots,
+  readSnapshot,
+  snapshotId,
+  writeSnapshot,
+} from "../src/snapshots";
+
+/**
+ * Snapshot of a baseline and competitors at the given date
+ */
+function snapshotAt(date: string, sources: Record<string, string[]>) {
+  const sourceMap = new Map(
+    Object.entries(sources).map(([name, domains]) => [name, new Set(domains)])
+  );
+  const [baselineName, ...competitorNames] = [...sourceMap.keys()];
+  const competitors = competitorNames.map((name) => ({
+    ...calculateOverlap(sourceMap.get(baselineName)!, sourceMap.get(name)!),
+    competitorName: name,
+  }));
+  return buildSnapshot(
+    sourceMap,
+    competitors,
+    baselineName,
+    false,
+    new Date(date)
+  );
+}
+
+describe("snapshotId", () => {
+  it("is sortable and file-name safe", () => {
+    expect(snapshotId(new Date("2026-10-19T08:30:05.123Z"))).toBe(
+      "2026-10-19T08-30-05-123Z"
+    );
+  });
+});
+
+describe("findSnapshot", () => {
+  const ids = [
+    "2026-08-31T10-00-00Z",
+    "2026-09-01T10-00-00Z",
+    "2026-09-30T10-00-00Z",
+  ];
+
+  it("picks the latest snapshot matching a prefix", () => {
+    expect(findSnapshot(ids, "2026-09")).toBe("2026-09-30T10-00-00Z");
+    expect(findSnapshot(ids, "2026-08-31T10-00-00Z")).toBe(
+      "2026-08-31T10-00-00Z"
+    );
+    expect(findSnapshot(ids, "2026-07")).toBeNull();
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("reports added and removed merchants and overlap movement", () => {
+    const previous = snapshotAt("2026-09-01T00:00:00Z", {
+      DealsPotr: ["a.com", "b.com"],
+      rakuten: ["a.com", "x.com"],
+      savings: ["b.com"],
+    });
+    const current = snapshotAt("2026-10-01T00:00:00Z", {
+      DealsPotr: ["a.com", "b.com", "c.com"],
+      rakuten: ["a.com", "c.com", "y.com", "z.com"],
+      minty: ["c.com"],
+    });
+
+    const diff = diffSnapshots(previous, current);
+
+    expect(diff.fromSnapshot).toBe("2026-09-01T00-00-00-000Z");
+    expect(diff.toSnapshot).toBe("2026-10-01T00-00-00-000Z");
+    expect(diff.baseline).toEqual({
+      sourceName: "DealsPotr",
+      previousDomainCount: 2,
+      currentDomainCount: 3,
+      addedDomains: ["c.com"],
+      removedDomains: [],
+    });
+    expect(diff.competitors).toEqual([
+      {
+        sourceName: "rakuten",
+        previousDomainCount: 2,
+        currentDomainCount: 4,
+        addedDomains: ["c.com", "y.com", "z.com"],
+        removedDomains: ["x.com"],
+        previousOverlapPercentage: 50,
+        currentOverlapPercentage: 50,
+        overlapPercentageChange: 0,
+      },
+      {
+        sourceName: "minty",
+        previousDomainCount: 0,
+        currentDomainCount: 1,
+        addedDomains: ["c.com"],
+        removedDomains: [],
+        previousOverlapPercentage: null,
+        currentOverlapPercentage: 100,
+        overlapPercentageChange: null,
+      },
+      {
+        sourceName: "savings",
+        previousDomainCount: 1,
+        currentDomainCount: 0,
+        addedDomains: [],
+        removedDomains: ["b.com"],
+        previousOverlapPercentage: 100,
+        currentOverlapPercentage: null,
+        overlapPercentageChange: null,
+      },
+    ]);
+  });
+});
+
+describe("snapshot files", () => {
+  let snapshotDir: string;
+
+  beforeEach(async () => {
+    snapshotDir = await fs.mkdtemp(path.join(os.tmpdir(), "snapshots-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(snapshotDir);
+  });
+
+  it("round-trips snapshots and lists them oldest first", async () => {
+    const later = snapshotAt("2026-10-01T00:00:00Z", {
+      DealsPotr: ["b.com", "a.com"],
+      rakuten: ["a.com"],
+    });
+    const earlier = snapshotAt("2026-09-01T00:00:00Z", {
+      DealsPotr: ["a.com"],
+      rakuten: [],
+    });
+    await writeSnapshot(later, snapshotDir);
+    await writeSnapshot(earlier, snapshotDir);
+
+    expect(await listSnapshots(snapshotDir)).toEqual([
+      "2026-09-01T00-00-00-000Z",
+      "2026-10-01T00-00-00-000Z",
+    ]);
+    const read = await readSnapshot("2026-10-01T00-00-00-000Z", snapshotDir);
+    expect(read).toEqual(later);
+    expect(read.domains.DealsPotr).toEqual(["a.com", "b.com"]);
+  });
+
+  it("never overwrites a snapshot", async () => {
+    const snapshot = snapshotAt("2026-10-01T00:00:00Z", { DealsPotr: [] });
+    const snapshotPath = await writeSnapshot(snapshot, snapshotDir);
+
+    await expect(writeSnapshot(snapshot, snapshotDir)).rejects.toThrow(
+      `Snapshot ${snapshot.id} already exists at ${snapshotPath}`
+    );
+    expect(await listSnapshots(snapshotDir)).toEqual([snapshot.id]);
+  });
+
+  it("lists nothing before the first snapshot", async () => {
+    expect(await listSnapshots(path.join(snapshotDir, "missing"))).toEqual([]);
+  });
+});
+
+describe("selectDiffSnapshots", () => {
+  const ids = [
+    "2026-08-31T10-00-00-000Z",
+    "2026-09-30T10-00-00-000Z",
+    "2026-10-31T10-00-00-000Z",
+  ];
+
+  it("diffs the latest snapshot against the one before it", () => {
+    expect(selectDiffSnapshots(ids)).toEqual({
+      sinceId: ids[1],
+      toId: ids[2],
+    });
+  });
+
+  it("diffs --to against the snapshot before it", () => {
+    expect(selectDiffSnapshots(ids, "2026-09")).toEqual({
+      sinceId: ids[0],
+      toId: ids[1],
+    });
+    expect(() => selectDiffSnapshots(ids, "2026-08")).toThrow(
+      `No snapshot before ${ids[0]} to diff against`
+    );
+  });
+
+  it("rejects a --since that is not older than --to", () => {
+    expect(selectDiffSnapshots(ids, "2026-10", "2026-08")).toEqual({
+      sinceId: ids[0],
+      toId: ids[2],
+    });
+    expect(() => selectDiffSnapshots(ids, "2026-09", "2026-10")).toThrow(
+      `--since ${ids[2]} is not older than --to ${ids[1]}`
+    );
+    expect(() => selectDiffSnapshots(ids, "2026-07")).toThrow(
+      "No snapshot matches 2026-07"
+    );
+  });
+});
+
+describe("runDiff", () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "diff-"));
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(outputDir);
+  });
+
+  it("diffs an older --to against the snapshot before it", async () => {
+    const snapshotDir = path.join(outputDir, "snapshots");
+    for (const [date, domains] of [
+      ["2026-08-01T00:00:00Z", ["a.com"]],
+      ["2026-09-01T00:00:00Z", ["a.com", "b.com"]],
+      ["2026-10-01T00:00:00Z", ["c.com"]],
+    ] as const) {
+      await writeSnapshot(
+        snapshotAt(date, { DealsPotr: [...domains] }),
+        snapshotDir
+      );
+    }
+
+    await runDiff(["--output-dir", outputDir, "--to", "2026-09"]);
+
+    const diff = await fs.readJSON(path.join(outputDir, "snapshot-diff.json"));
+    expect(diff.fromSnapshot).toBe("2026-08-01T00-00-00-000Z");
+    expect(diff.toSnapshot).toBe("2026-09-01T00-00-00-000Z");
+    expect(diff.baseline.addedDomains).toEqual(["b.com"]);
+    expect(diff.baseline.removedDomains).toEqual([]);
+  });
+});
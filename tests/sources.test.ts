@@ -0,0 +1,247 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { analyze } from "../src/analysis";
+import {
+  DEALSPOTR_SOURCE,
+  baselineNaming,
+  competitorBaseName,
+  findCompetitorSources,
+  findSourceFiles,
+  matchesSourceName,
+  parseBaselineArg,
+  selectBaseline,
+} from "../src/sources";
+import { validateSources } from "../src/validation";
+
+function sitemapIndex(...children: string[]): string {
+  return `<sitemapindex>${children
+    .map(
+      (child) => `<sitemap><loc>https://example.com/${child}</loc></sitemap>`
+    )
+    .join("")}</sitemapindex>`;
+}
+
+function urlset(...urls: string[]): string {
+  return `<urlset>${urls
+    .map((url) => `<url><loc>${url}</loc></url>`)
+    .join("")}</urlset>`;
+}
+
+const sources = [
+  DEALSPOTR_SOURCE,
+  {
+    name: "retailmenot.com",
+    path: "competitors/retailmenot.com.xml",
+    isDirectory: false,
+  },
+  {
+    name: "goodsearch.com",
+    path: "competitors/goodsearch.com",
+    isDirectory: true,
+  },
+];
+
+describe("selectBaseline", () => {
+  it("defaults to DealsPotr", () => {
+    const { baseline, competitors } = selectBaseline(sources);
+    expect(baseline).toBe(DEALSPOTR_SOURCE);
+    expect(competitors.map((source) => source.name)).toEqual([
+      "retailmenot.com",
+      "goodsearch.com",
+    ]);
+  });
+
+  it("swaps DealsPotr in as a competitor for another baseline", () => {
+    const { baseline, competitors } = selectBaseline(
+      sources,
+      parseBaselineArg(["--baseline", "RetailMeNot"])
+    );
+    expect(baseline.name).toBe("retailmenot.com");
+    expect(competitors.map((source) => source.name)).toEqual([
+      "DealsPotr",
+      "goodsearch.com",
+    ]);
+  });
+
+  it("lists the available sources for an unknown baseline", () => {
+    expect(() => selectBaseline(sources, "rakuten")).toThrow(
+      "Available sources: DealsPotr, retailmenot.com, goodsearch.com"
+    );
+  });
+});
+
+describe("matchesSourceName", () => {
+  it.each([
+    ["retailmenot.com", "retailmenot.com", true],
+    ["retailmenot.com", "RETAILMENOT", true],
+    ["DealsPotr", "dealspotr", true],
+    ["retailmenot.com", "retail", false],
+  ])("%s / %s -> %s", (name, requested, expected) => {
+    expect(matchesSourceName(name, requested)).toBe(expected);
+  });
+});
+
+describe("baselineNaming", () => {
+  it("names fields and columns after the baseline", () => {
+    expect(baselineNaming("retailmenot.com")).toEqual({
+      domainsCountField: "baselineDomainsCount",
+      brandsCountField: "baselineBrandsCount",
+      onlyDomainsCountField: "baselineOnlyDomainsCount",
+      locColumn: "retailmenot.com loc",
+      brandLocColumn: "retailmenot.com brand loc",
+    });
+  });
+
+  it("keeps the DealsPotr names in legacy mode", () => {
+    const naming = baselineNaming("retailmenot.com", true);
+    expect(naming.domainsCountField).toBe("dealsptrDomainsCount");
+    expect(naming.locColumn).toBe("dealspotr loc");
+  });
+});
+
+describe("competitorBaseName", () => {
+  it.each([
+    ["rakuten.com-2", "rakuten.com"],
+    ["rakuten.com (2)", "rakuten.com"],
+    ["1-800-flowers.com", "1-800-flowers.com"],
+    ["1-800-flowers.com-3", "1-800-flowers.com"],
+  ])("%s -> %s", (fileBaseName, expected) => {
+    expect(competitorBaseName(fileBaseName)).toBe(expected);
+  });
+});
+
+describe("findCompetitorSources", () => {
+  let competitorDir: string;
+
+  beforeEach(async () => {
+    competitorDir = await fs.mkdtemp(path.join(os.tmpdir(), "competitors-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(competitorDir);
+  });
+
+  it("groups the parts of a competitor's sitemap", async () => {
+    for (const file of [
+      "rakuten.com-1.xml",
+      "rakuten.com-2.xml",
+      "1-800-flowers.com.xml",
+      "deals-365.xml",
+      "goodsearch.com/goodsearch.com-1.xml",
+    ]) {
+      await fs.outputFile(path.join(competitorDir, file), "<urlset/>");
+    }
+
+    expect(await findCompetitorSources(competitorDir)).toEqual([
+      {
+        name: "1-800-flowers.com",
+        path: path.join(competitorDir, "1-800-flowers.com.xml"),
+        isDirectory: false,
+      },
+      {
+        name: "deals-365",
+        path: path.join(competitorDir, "deals-365.xml"),
+        isDirectory: false,
+      },
+      {
+        name: "rakuten.com",
+        path: competitorDir,
+        isDirectory: false,
+        files: [
+          path.join(competitorDir, "rakuten.com-1.xml"),
+          path.join(competitorDir, "rakuten.com-2.xml"),
+        ],
+      },
+      {
+        name: "goodsearch.com",
+        path: path.join(competitorDir, "goodsearch.com"),
+        isDirectory: true,
+      },
+    ]);
+  });
+
+  it("leaves the child sitemaps of an index to its competitor", async () => {
+    const files: Record<string, string> = {
+      "example.com.xml": sitemapIndex("stores.xml", "more.xml"),
+      "example.com/stores.xml": urlset(
+        "https://www.example.com/coupons/alpha.com"
+      ),
+      "example.com/more.xml": sitemapIndex("more-1.xml"),
+      "example.com/more-1.xml": urlset(
+        "https://www.example.com/coupons/beta.com"
+      ),
+      "knoji.com.xml": urlset("https://knoji.com/alpha.com/"),
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.outputFile(path.join(competitorDir, file), content);
+    }
+
+    const competitors = await findCompetitorSources(competitorDir);
+    expect(competitors).toEqual([
+      {
+        name: "example.com",
+        path: path.join(competitorDir, "example.com.xml"),
+        isDirectory: false,
+      },
+      {
+        name: "knoji.com",
+        path: path.join(competitorDir, "knoji.com.xml"),
+        isDirectory: false,
+      },
+    ]);
+
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const { diagnostics } = await analyze({
+      baseline: competitors[1],
+      competitors: [competitors[0]],
+      options: { cache: false, concurrency: 1 },
+    });
+    jest.restoreAllMocks();
+    expect(validateSources(diagnostics.values())).toEqual([]);
+  });
+});
+
+describe("findSourceFiles", () => {
+  let sourceDir: string;
+
+  beforeEach(async () => {
+    sourceDir = await fs.mkdtemp(path.join(os.tmpdir(), "source-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(sourceDir);
+  });
+
+  it("reads the children of a sitemap index only through it", async () => {
+    const files: Record<string, string> = {
+      "index.xml": sitemapIndex("stores-1.xml", "stores-2.xml"),
+      "stores-1.xml": urlset(
+        "https://www.example.com/coupons/alpha.com",
+        "https://www.example.com/coupons/beta.com"
+      ),
+      "stores-2.xml": urlset(
+        "https://www.example.com/coupons/gamma.com",
+        "https://www.example.com/coupons/delta.com"
+      ),
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.outputFile(path.join(sourceDir, file), content);
+    }
+    const source = { name: "example.com", path: sourceDir, isDirectory: true };
+
+    expect(await findSourceFiles(source)).toEqual([
+      path.join(sourceDir, "index.xml"),
+    ]);
+
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const { diagnostics, model } = await analyze({
+      baseline: source,
+      competitors: [{ ...source, name: "copy" }],
+      options: { cache: false, concurrency: 1 },
+    });
+    jest.restoreAllMocks();
+    expect(diagnostics.get("example.com")!.totalUrls).toBe(4);
+    expect(model.competitorUrls.copy).toHaveLength(4);
+  });
+});
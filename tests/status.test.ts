@@ -0,0 +1,75 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { parsePathArgs } from "../src/cliOptions";
+import { collectStatus } from "../src/status";
+
+describe("collectStatus", () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "status-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(outputDir);
+  });
+
+  it("reports unresolvable sources and missing outputs", async () => {
+    const status = await collectStatus(
+      parsePathArgs([
+        "--dealspotr-dir",
+        path.join(outputDir, "missing"),
+        "--competitors-dir",
+        path.join(outputDir, "missing"),
+        "--output-dir",
+        outputDir,
+      ])
+    );
+
+    expect(status).toEqual({
+      configFile: null,
+      sources: [],
+      sourcesError: expect.stringContaining("ENOENT"),
+      analysis: null,
+      snapshotCount: 0,
+      latestSnapshot: null,
+      scrapeState: null,
+      cacheEntryCount: 0,
+    });
+  });
+
+  it("summarizes the saved results and the test scrape state", async () => {
+    await fs.writeJSON(path.join(outputDir, "domain-overlap-results.json"), {
+      dealsptrDomainsCount: 3,
+      competitors: [{ competitorName: "rakuten" }],
+    });
+    await fs.writeJSON(path.join(outputDir, "test-scrape-state.json"), {
+      totalLinks: 4,
+      completedLinks: 2,
+      failedLinks: 1,
+      pendingLinks: 1,
+      lastUpdated: "2026-10-01T00:00:00.000Z",
+    });
+
+    const status = await collectStatus(
+      parsePathArgs([
+        "--competitors-dir",
+        path.join(__dirname, "fixtures", "sitemaps"),
+        "--output-dir",
+        outputDir,
+        "--test",
+      ])
+    );
+
+    expect(status.analysis).toMatchObject({
+      baselineName: "DealsPotr",
+      competitorCount: 1,
+    });
+    expect(status.sources).toContainEqual({ name: "urlset", fileCount: 1 });
+    expect(status.scrapeState).toMatchObject({
+      completedLinks: 2,
+      pendingLinks: 1,
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { analyze } from "../src/analysis";
+import { createSourceDiagnostics } from "../src/diagnostics";
+import {
+  DEFAULT_MIN_EXTRACTION_RATE,
+  buildValidationReport,
+  parseMinExtractionRateArg,
+  validateSources,
+  writeValidationReport,
+} from "../src/validation";
+import { SourceDiagnostics } from "../src/types";
+
+const fixturesDir = path.join(__dirname, "fixtures", "sitemaps");
+
+function diagnosticsWithFile(
+  sourceName: string,
+  totalUrls: number,
+  extractedUrls: number
+): SourceDiagnostics {
+  return {
+    ...createSourceDiagnostics(sourceName),
+    totalUrls,
+    extractedUrls,
+    files: [{ file: `${sourceName}.xml`, totalUrls, extractedUrls }],
+  };
+}
+
+describe("parseMinExtractionRateArg", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("defaults to the default rate", () => {
+    expect(parseMinExtractionRateArg([])).toBe(DEFAULT_MIN_EXTRACTION_RATE);
+  });
+
+  it("reads the percentage following the flag", () => {
+    expect(parseMinExtractionRateArg(["--min-extraction-rate", "80"])).toBe(80);
+  });
+
+  it("falls back to the default for values outside 0-100", () => {
+    expect(parseMinExtractionRateArg(["--min-extraction-rate", "150"])).toBe(
+      DEFAULT_MIN_EXTRACTION_RATE
+    );
+    expect(parseMinExtractionRateArg(["--min-extraction-rate"])).toBe(
+      DEFAULT_MIN_EXTRACTION_RATE
+    );
+  });
+});
+
+describe("validateSources", () => {
+  it("accepts sources whose files parsed and yielded enough domains", () => {
+    expect(validateSources([diagnosticsWithFile("knoji", 10, 9)])).toEqual([]);
+  });
+
+  it("flags sources without files", () => {
+    expect(validateSources([createSourceDiagnostics("knoji")])).toEqual([
+      {
+        sourceName: "knoji",
+        file: null,
+        check: "no_files",
+        message: "No sitemap files found",
+      },
+    ]);
+  });
+
+  it("flags malformed and empty files", () => {
+    const diagnostics: SourceDiagnostics = {
+      ...diagnosticsWithFile("knoji", 4, 4),
+      files: [
+        { file: "good.xml", totalUrls: 4, extractedUrls: 4 },
+        {
+          file: "broken.xml",
+          totalUrls: 0,
+          extractedUrls: 0,
+          error: "Unclosed root tag\nLine: 3",
+        },
+        { file: "empty.xml", totalUrls: 0, extractedUrls: 0 },
+      ],
+    };
+
+    expect(validateSources([diagnostics])).toEqual([
+      {
+        sourceName: "knoji",
+        file: "broken.xml",
+        check: "malformed_xml",
+        message: "Could not be parsed: Unclosed root tag",
+      },
+      {
+        sourceName: "knoji",
+        file: "empty.xml",
+        check: "empty_file",
+        message: "Holds no URLs",
+      },
+    ]);
+  });
+
+  it("flags sources below the minimum extraction rate", () => {
+    const problems = validateSources(
+      [
+        diagnosticsWithFile("knoji", 10, 6),
+        diagnosticsWithFile("wethrift", 10, 9),
+      ],
+      75
+    );
+
+    expect(problems).toEqual([
+      {
+        sourceName: "knoji",
+        file: null,
+        check: "low_extraction_rate",
+        message: "Only 60.00% of 10 URLs yielded a domain (minimum 75%)",
+      },
+    ]);
+  });
+});
+
+describe("validation report", () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "validation-"));
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(workDir);
+  });
+
+  it("reports the malformed and empty sitemaps of an analysis", async () => {
+    const emptyDir = path.join(workDir, "empty");
+    await fs.ensureDir(emptyDir);
+
+    const { diagnostics } = await analyze({
+      baseline: {
+        name: "goodshop.com",
+        path: path.join(fixturesDir, "urlset.xml"),
+        isDirectory: false,
+      },
+      competitors: [
+        {
+          name: "rakuten.com",
+          path: path.join(fixturesDir, "malformed.xml"),
+          isDirectory: false,
+        },
+        { name: "knoji.com", path: emptyDir, isDirectory: true },
+      ],
+      options: { cache: false, concurrency: 1 },
+    });
+    const report = buildValidationReport(diagnostics, true);
+
+    expect(report).toMatchObject({
+      strict: true,
+      minExtractionRate: DEFAULT_MIN_EXTRACTION_RATE,
+      sourceCount: 3,
+      fileCount: 2,
+    });
+    expect(report.problems).toMatchObject([
+      {
+        sourceName: "rakuten.com",
+        file: path.join(fixturesDir, "malformed.xml"),
+        check: "malformed_xml",
+      },
+      { sourceName: "knoji.com", file: null, check: "no_files" },
+    ]);
+
+    const reportPath = await writeValidationReport(report, workDir);
+    expect(reportPath).toBe(path.join(workDir, "validation-report.json"));
+    expect(await fs.readJSON(reportPath)).toEqual(report);
+  });
+});